@@ -20,6 +20,7 @@ export default defineConfig({
           { text: "Configuration", link: "/configuration" },
           { text: "Directive", link: "/directive" },
           { text: "Composable", link: "/composable" },
+          { text: "Components", link: "/components" },
           { text: "Guards", link: "/guards" },
         ],
       },
@@ -52,6 +53,7 @@ export default defineConfig({
           items: [
             { text: "v-permission Directive", link: "/directive" },
             { text: "usePermission Composable", link: "/composable" },
+            { text: "<Can> / <Cannot> Components", link: "/components" },
             { text: "Route Guards", link: "/guards" },
           ],
         },
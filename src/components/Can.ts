@@ -0,0 +1,101 @@
+import {
+  defineComponent,
+  onBeforeUnmount,
+  ref,
+  watch,
+  type PropType,
+  type SlotsType,
+} from "vue";
+import { onAsyncPermissionResolved } from "@/core/asyncCheckers";
+import { usePermission } from "@/composables/usePermission";
+import type {
+  PermissionContext,
+  PermissionTrace,
+  PermissionValue,
+} from "@/types";
+
+/**
+ * <Can> / <Cannot> components
+ * ----------------------------
+ * Usage:
+ * <Can rule="posts.edit">
+ *   <EditButton />
+ *   <template #fallback><UpgradeBanner /></template>
+ * </Can>
+ * <Can :rule="{ ability: 'post.edit', subject: post }" v-slot="{ explain }">
+ * <Cannot rule="billing.view">Ask an admin for access</Cannot>
+ *
+ * Renderless: the default slot renders while the rule is allowed (denied
+ * for <Cannot>), the `fallback` slot otherwise. With `pass-through` the
+ * default slot always renders and decides itself from `allowed`.
+ */
+
+export interface PermissionSlotProps {
+  allowed: boolean;
+  /** Trace of which sub-rules matched or failed */
+  explain: () => PermissionTrace;
+}
+
+const createPermissionComponent = (name: string, negate: boolean) =>
+  defineComponent({
+    name,
+    props: {
+      rule: {
+        type: [String, Array, Object] as PropType<PermissionValue>,
+        required: true,
+      },
+      /** Policy context; `scope` checks that scope's permissions */
+      context: {
+        type: Object as PropType<PermissionContext>,
+        default: undefined,
+      },
+      /** Always render the default slot, passing `allowed` to it */
+      passThrough: { type: Boolean, default: false },
+    },
+    slots: Object as SlotsType<{
+      default?: PermissionSlotProps;
+      fallback?: PermissionSlotProps;
+    }>,
+    setup(props, { slots }) {
+      const { can, canSync, explain, permissions } = usePermission();
+
+      // Sync result renders right away; async rules (policies, async
+      // checkers) settle it afterwards
+      const allowed = ref(canSync(props.rule, props.context));
+      let latest = 0;
+      const evaluate = async () => {
+        const run = ++latest;
+        const result = await can(props.rule, props.context);
+        // A newer evaluation started while this one was pending
+        if (run === latest) allowed.value = result;
+      };
+
+      watch(
+        [() => props.rule, () => props.context, permissions],
+        () => {
+          allowed.value = canSync(props.rule, props.context);
+          evaluate();
+        },
+        { deep: true },
+      );
+      evaluate();
+
+      // Async checker results can change after mount
+      onBeforeUnmount(onAsyncPermissionResolved(evaluate));
+
+      return () => {
+        const slotProps: PermissionSlotProps = {
+          allowed: allowed.value,
+          explain: () => explain(props.rule, props.context),
+        };
+        const show = negate ? !allowed.value : allowed.value;
+
+        if (show || props.passThrough) return slots.default?.(slotProps);
+        return slots.fallback?.(slotProps);
+      };
+    },
+  });
+
+export const Can = createPermissionComponent("Can", false);
+
+export const Cannot = createPermissionComponent("Cannot", true);
@@ -1,117 +1,131 @@
-import { clearPermissionCache } from "@/core/cache";
-import { getCurrentPermissions } from "@/core/config";
-import { hasPermission } from "@/core/evaluator";
-import type { PermissionValue } from "@/types";
+import { getDeniedPermissions } from "@/core/deny";
+import {
+  defaultPermissions,
+  PERMISSION_INSTANCE_KEY,
+  type PermissionInstance,
+} from "@/core/instance";
+import { grantsRole } from "@/core/roles";
+import type {
+  PermissionContext,
+  PermissionGrant,
+  PermissionValue,
+} from "@/types";
+import { createDebugLogger } from "@/utils/debug";
 import {
   getPermissionsFromStorage,
   savePermissionsToStorage,
 } from "@/utils/storage";
-import { computed, ref } from "vue";
+import { computed, getCurrentInstance, inject } from "vue";
 
 /**
  * usePermission Composable
  * Reactive + Async + Cached Permission Checker
+ *
+ * Uses the permission instance installed in the current app (see
+ * createPermissions), the one passed in, or the default instance. All
+ * callers share that instance's reactive permissions, so setPermissions()
+ * in one component is seen by every other one, v-permission and guards.
  */
-export function usePermission() {
+export function usePermission(instance?: PermissionInstance) {
+  const target =
+    instance ??
+    (getCurrentInstance()
+      ? inject(PERMISSION_INSTANCE_KEY, defaultPermissions)
+      : defaultPermissions);
+  const logDebug = createDebugLogger(target.isDevMode);
+
   // Priority: global config -> storage -> empty array
-  // Note: getCurrentPermissions() returns [] when not configured, so check length
-  const globalPerms = getCurrentPermissions();
-  let initialPerms: string[] = [];
+  // Storage only fills an instance that was never configured: once
+  // permissions were configured or set (even to an empty list on logout),
+  // a usePermission() call never overwrites them
   let sourceType: "global" | "storage" | "empty" = "empty";
 
-  if (globalPerms && globalPerms.length > 0) {
-    initialPerms = globalPerms;
+  if (target.hasConfiguredPermissions()) {
     sourceType = "global";
-  } else {
-    const storedPerms = getPermissionsFromStorage();
+  } else if (!target.wasConfigured()) {
+    const storedPerms = getPermissionsFromStorage(target.storageKey);
     if (storedPerms && storedPerms.length > 0) {
-      initialPerms = storedPerms;
+      // Hydrate the shared store rather than keeping a private copy
+      target.setPermissions(storedPerms);
       sourceType = "storage";
     }
   }
 
-  const permissions = ref<string[]>(initialPerms);
+  // Grants active right now; re-computed on every change of the store,
+  // including a timed grant starting or expiring. Copied so that a Ref
+  // edited in place still yields a new value for watchers downstream
+  const active = computed(() => [...target.getReactivePermissions().value]);
+
+  // A scope in the context checks that scope's permissions instead
+  const grantedFor = (context?: PermissionContext) =>
+    context?.scope !== undefined
+      ? target.getCurrentPermissions(context.scope)
+      : active.value;
 
   /**
-   * can(rule)
+   * can(rule, context?)
    * Async permission evaluator
    */
-  const can = async (rule: PermissionValue) => {
-    return await hasPermission(rule, permissions.value);
+  const can = async (rule: PermissionValue, context?: PermissionContext) => {
+    const allowed = await target.hasPermission(
+      rule,
+      grantedFor(context),
+      context
+    );
+    if (!allowed && target.isDevMode()) {
+      logDebug("Denied because:", explain(rule, context));
+    }
+    return allowed;
   };
 
   /**
-   * canSync(rule)
-   * Instant local check — simplified fallback
+   * explain(rule, context?)
+   * Trace of which sub-rules matched or failed
    */
-  const canSync = (rule: PermissionValue) => {
-    if (rule === "*") return true;
-    if (typeof rule === "string") return permissions.value.includes(rule);
-    if (Array.isArray(rule)) {
-      if (rule.includes("*")) return true;
-      return rule.some((r) => permissions.value.includes(r));
-    }
-    if (typeof rule === "object" && rule.permissions && rule.mode) {
-      const { permissions: p, mode } = rule;
-      if (!Array.isArray(p) || p.length === 0) return false;
-      if (p.includes("*")) return true;
-      if (mode === "and") return p.every((v) => permissions.value.includes(v));
-      if (mode === "or") return p.some((v) => permissions.value.includes(v));
-      if (mode === "not") return !p.some((v) => permissions.value.includes(v));
-      if (mode === "startWith")
-        return p.some((pat) =>
-          permissions.value.some((u) => u.startsWith(pat)),
-        );
-      if (mode === "endWith")
-        return p.some((pat) => permissions.value.some((u) => u.endsWith(pat)));
-      if (mode === "regex")
-        return p.some((pat) => {
-          try {
-            const r = new RegExp(pat);
-            return permissions.value.some((u) => r.test(u));
-          } catch {
-            return false;
-          }
-        });
-    }
-    return false;
-  };
+  const explain = (rule: PermissionValue, context?: PermissionContext) =>
+    target.explainPermission(rule, grantedFor(context), context);
+
+  /**
+   * canSync(rule, context?)
+   * Instant local check — same rule tree as can(), without caching
+   */
+  const canSync = (rule: PermissionValue, context?: PermissionContext) =>
+    target.checkPermissionSync(rule, grantedFor(context), context);
 
   /**
    * refresh()
    * Clear cache and reload from the same source used during initialization
    */
   const refresh = () => {
-    clearPermissionCache();
+    target.clearPermissionCache();
     if (sourceType === "global") {
-      // Reload from current global config (may have been updated)
-      const currentGlobalPerms = getCurrentPermissions();
-      permissions.value =
-        currentGlobalPerms && currentGlobalPerms.length > 0
-          ? currentGlobalPerms
-          : [];
+      // The store already follows the global config (may have been updated)
+      target.notifyPermissionsChanged();
     } else if (sourceType === "storage") {
       // Reload from current storage
-      const storedPerms = getPermissionsFromStorage();
-      permissions.value =
-        storedPerms && storedPerms.length > 0 ? storedPerms : [];
+      const storedPerms = getPermissionsFromStorage(target.storageKey);
+      target.setPermissions(
+        storedPerms && storedPerms.length > 0 ? storedPerms : []
+      );
     } else {
       // Source was empty, reset to empty
-      permissions.value = [];
+      target.setPermissions([]);
     }
   };
 
   /**
    * setPermissions()
+   * Entries may be timed grants ({ permission, notBefore?, expiresAt? })
    */
-  const setPermissions = (newPerms: string[]) => {
+  const setPermissions = (newPerms: PermissionGrant[]) => {
     if (!Array.isArray(newPerms)) {
       console.error("[v-permission] Permissions must be an array");
       return;
     }
-    clearPermissionCache();
-    permissions.value = newPerms;
-    savePermissionsToStorage(newPerms);
+    // Writes the shared store; cached results that depended on the
+    // previous permissions are dropped
+    target.setPermissions(newPerms);
+    savePermissionsToStorage(newPerms, target.storageKey);
   };
 
   /**
@@ -132,14 +146,29 @@ export function usePermission() {
     return await can({ permissions: perms, mode: "or" });
   };
 
+  /**
+   * hasRole()
+   * True if the user holds any of the given roles, directly or through
+   * role inheritance (see defineRoles)
+   */
+  const hasRole = (roles: string | string[]) => {
+    const list = Array.isArray(roles) ? roles : [roles];
+    return list.some((role) => grantsRole(active.value, role));
+  };
+
   return {
-    permissions: computed(() => permissions.value),
+    // Active permissions; timed grants outside their window are left out
+    permissions: computed(() => active.value),
+    // Effective explicit denies ("!x" entries, including ones from roles)
+    denied: computed(() => getDeniedPermissions(active.value)),
     can,
     hasPermission: can, // Alias for can() — used in docs & templates
     canSync,
+    explain,
     refresh,
     setPermissions,
     hasAll,
     hasAny,
+    hasRole,
   };
 }
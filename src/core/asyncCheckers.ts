@@ -0,0 +1,154 @@
+import {
+  clearPermissionCache,
+  getCachedPermission,
+  setCachedPermission,
+} from "./cache";
+import { logDebug } from "@/utils/debug";
+import type { AsyncPermissionChecker } from "../types";
+
+/**
+ * Async Permission Checkers
+ * -------------------------
+ * Delegates permissions with a given prefix to an external source:
+ *
+ * registerAsyncChecker("feature:", (key) => featureFlags.isOn(key))
+ *
+ * "feature:newDashboard" is then granted when the checker resolves true for
+ * "newDashboard". Results go through the permission cache; sync checks use
+ * the cached value (denying until it arrives) and listeners are notified
+ * when a result resolves, so the directive can re-evaluate.
+ *
+ * Checkers and their results are shared by every permission instance:
+ * results live in the default instance's cache (cleared by the top-level
+ * clearPermissionCache) and failures are logged while the default instance
+ * is in development mode.
+ */
+
+const CACHE_PREFIX = "async:";
+
+const checkers = new Map<string, AsyncPermissionChecker>();
+const pending = new Map<string, Promise<boolean>>();
+// Last resolved value per permission, to only notify on changes
+const known = new Map<string, boolean>();
+const listeners = new Set<(permission: string, value: boolean) => void>();
+
+export const registerAsyncChecker = (
+  prefix: string,
+  checker: AsyncPermissionChecker
+) => {
+  if (!prefix || typeof prefix !== "string") {
+    throw new TypeError(
+      "[v-permission] Async checker prefix must be a non-empty string"
+    );
+  }
+  if (typeof checker !== "function") {
+    throw new TypeError(
+      `[v-permission] Async checker "${prefix}" must be a function`
+    );
+  }
+  checkers.set(prefix, checker);
+  // Rules touching this prefix may have been cached as denied
+  clearPermissionCache();
+};
+
+export const unregisterAsyncChecker = (prefix: string) => {
+  clearPermissionCache();
+  return checkers.delete(prefix);
+};
+
+export const clearAsyncCheckers = () => {
+  checkers.clear();
+  pending.clear();
+  known.clear();
+};
+
+// Longest matching prefix wins
+const findChecker = (permission: string) => {
+  let match: string | undefined;
+  for (const prefix of checkers.keys()) {
+    if (
+      permission.startsWith(prefix) &&
+      (!match || prefix.length > match.length)
+    ) {
+      match = prefix;
+    }
+  }
+  return match;
+};
+
+export const hasAsyncChecker = (permission: string): boolean =>
+  checkers.size > 0 && findChecker(permission) !== undefined;
+
+/**
+ * Cached result for an async permission, or null if unknown/expired.
+ */
+export const getCachedAsyncPermission = (permission: string) =>
+  getCachedPermission(CACHE_PREFIX + permission);
+
+/**
+ * Ask the checker for a permission. Concurrent calls share one request;
+ * failures resolve to false and aren't cached.
+ */
+export const resolveAsyncPermission = (
+  permission: string
+): Promise<boolean> => {
+  const cached = getCachedAsyncPermission(permission);
+  if (cached !== null) return Promise.resolve(cached);
+
+  const inFlight = pending.get(permission);
+  if (inFlight) return inFlight;
+
+  const prefix = findChecker(permission);
+  if (!prefix) return Promise.resolve(false);
+
+  const checker = checkers.get(prefix)!;
+  const request = (async () => {
+    try {
+      const value =
+        (await checker(permission.slice(prefix.length), { permission })) ===
+        true;
+      // Checker results don't depend on the granted permissions
+      setCachedPermission(CACHE_PREFIX + permission, value, {
+        dependsOnPermissions: false,
+      });
+
+      if (known.get(permission) !== value) {
+        known.set(permission, value);
+        listeners.forEach((listener) => listener(permission, value));
+      }
+      return value;
+    } catch (e) {
+      logDebug(`Async checker "${prefix}" failed for ${permission}:`, e);
+      return false;
+    } finally {
+      pending.delete(permission);
+    }
+  })();
+
+  pending.set(permission, request);
+  return request;
+};
+
+/**
+ * Synchronous view of an async permission: the cached value, or false while
+ * the checker is (re)queried in the background.
+ */
+export const peekAsyncPermission = (permission: string): boolean => {
+  const cached = getCachedAsyncPermission(permission);
+  if (cached !== null) return cached;
+
+  resolveAsyncPermission(permission);
+  return false;
+};
+
+/**
+ * Subscribe to async results that changed. Returns an unsubscribe function.
+ */
+export const onAsyncPermissionResolved = (
+  listener: (permission: string, value: boolean) => void
+) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -1,47 +1,234 @@
-const permissionCache = new Map<
-  string,
-  { value: boolean; timestamp: number }
->();
-const CACHE_MAX_SIZE = 1000;
-const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-
-export const getCachedPermission = (key: string): boolean | null => {
-  const cached = permissionCache.get(key);
-  if (!cached) return null;
-
-  // Check TTL
-  if (Date.now() - cached.timestamp > CACHE_TTL) {
-    permissionCache.delete(key);
-    return null;
-  }
+import type { CacheOptions, CacheStats } from "../types";
+import { onPermissionsChanged } from "./config";
+
+/**
+ * Permission Cache
+ * ----------------
+ * Results of hasPermission (and async checker results) keyed by rule and
+ * permission set version. Entries expire after `ttl`; when `maxSize` is
+ * reached the least recently used entry is evicted ("lru"), or the oldest
+ * one ("fifo"). See configureCache / PluginOptions.cache.
+ *
+ * Entries that depend on the granted permissions are dropped as soon as
+ * those change (see onPermissionsChanged), and while the cache holds
+ * entries a sweep timer purges expired ones every `sweepInterval`.
+ *
+ * Each permission instance (see createPermissions) has its own cache; the
+ * top-level functions exported below belong to the default instance.
+ */
 
-  return cached.value;
+const DEFAULT_OPTIONS: Required<CacheOptions> = {
+  enabled: true,
+  ttl: 5 * 60 * 1000, // 5 minutes
+  maxSize: 1000,
+  strategy: "lru",
+  sweepInterval: 60 * 1000,
 };
 
-export const setCachedPermission = (key: string, value: boolean) => {
-  // Prevent unbounded growth
-  if (permissionCache.size >= CACHE_MAX_SIZE) {
-    // Remove oldest entry
-    const oldestKey = permissionCache.keys().next().value as string | undefined;
-    if (oldestKey) {
+// Bumped whenever cached results may be stale; permission sets built in an
+// older generation are rebuilt (see getPermissionSet). Shared by every
+// cache, since permission sets are shared too.
+let permissionGeneration = 0;
+
+export const getPermissionGeneration = () => permissionGeneration;
+
+export const bumpPermissionGeneration = () => {
+  permissionGeneration++;
+};
+
+const resolveOptions = (overrides: CacheOptions = {}) => {
+  const next = { ...DEFAULT_OPTIONS, ...overrides };
+  if (!Number.isFinite(next.ttl) || next.ttl < 0) {
+    throw new TypeError("[v-permission] Cache ttl must be a number >= 0");
+  }
+  if (!Number.isFinite(next.sweepInterval) || next.sweepInterval < 0) {
+    throw new TypeError(
+      "[v-permission] Cache sweepInterval must be a number >= 0"
+    );
+  }
+  if (!Number.isInteger(next.maxSize) || next.maxSize < 1) {
+    throw new TypeError("[v-permission] Cache maxSize must be an integer >= 1");
+  }
+  if (next.strategy !== "lru" && next.strategy !== "fifo") {
+    throw new TypeError(
+      `[v-permission] Unknown cache strategy "${next.strategy}"`
+    );
+  }
+  return next;
+};
+
+export const createPermissionCache = (initial?: CacheOptions) => {
+  let options: Required<CacheOptions> = resolveOptions(initial);
+
+  const permissionCache = new Map<
+    string,
+    { value: boolean; timestamp: number; dependent: boolean }
+  >();
+
+  let sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  const stats = { hits: 0, misses: 0, evictions: 0, expired: 0 };
+
+  const evictOverflow = () => {
+    while (permissionCache.size > options.maxSize) {
+      // Map order is insertion order; LRU re-inserts entries when read
+      const oldestKey = permissionCache.keys().next().value as string;
       permissionCache.delete(oldestKey);
+      stats.evictions++;
     }
-  }
+  };
 
-  permissionCache.set(key, {
-    value,
-    timestamp: Date.now(),
-  });
-};
+  const stopCacheSweep = () => {
+    if (sweepTimer) clearInterval(sweepTimer);
+    sweepTimer = null;
+  };
+
+  const invalidateCache = () => {
+    // Clear expired entries periodically
+    const now = Date.now();
+    for (const [key, cached] of permissionCache.entries()) {
+      if (now - cached.timestamp > options.ttl) {
+        permissionCache.delete(key);
+        stats.expired++;
+      }
+    }
+  };
 
-export const clearPermissionCache = () => permissionCache.clear();
+  const startCacheSweep = () => {
+    if (sweepTimer || options.sweepInterval <= 0) return;
+    sweepTimer = setInterval(() => {
+      invalidateCache();
+      if (permissionCache.size === 0) stopCacheSweep();
+    }, options.sweepInterval);
+    // Don't keep a server process alive just to sweep the cache
+    (sweepTimer as { unref?: () => void }).unref?.();
+  };
 
-export const invalidateCache = () => {
-  // Clear expired entries periodically
-  const now = Date.now();
-  for (const [key, cached] of permissionCache.entries()) {
-    if (now - cached.timestamp > CACHE_TTL) {
+  const configureCache = (overrides: CacheOptions = {}) => {
+    options = resolveOptions(overrides);
+    if (!options.enabled) permissionCache.clear();
+    evictOverflow();
+    // Re-arm with the new interval
+    stopCacheSweep();
+    if (permissionCache.size > 0) startCacheSweep();
+  };
+
+  const getCachedPermission = (key: string): boolean | null => {
+    if (!options.enabled) return null;
+
+    const cached = permissionCache.get(key);
+    if (!cached) {
+      stats.misses++;
+      return null;
+    }
+
+    // Check TTL
+    if (Date.now() - cached.timestamp > options.ttl) {
       permissionCache.delete(key);
+      stats.expired++;
+      stats.misses++;
+      return null;
     }
-  }
+
+    if (options.strategy === "lru") {
+      // Move to the most recently used end
+      permissionCache.delete(key);
+      permissionCache.set(key, cached);
+    }
+    stats.hits++;
+    return cached.value;
+  };
+
+  /**
+   * Cache a result. Pass `dependsOnPermissions: false` for results that
+   * stay valid when the granted permissions change (e.g. async checker
+   * results).
+   */
+  const setCachedPermission = (
+    key: string,
+    value: boolean,
+    { dependsOnPermissions = true }: { dependsOnPermissions?: boolean } = {}
+  ) => {
+    if (!options.enabled) return;
+
+    // Overwriting an entry refreshes its position too
+    permissionCache.delete(key);
+    permissionCache.set(key, {
+      value,
+      timestamp: Date.now(),
+      dependent: dependsOnPermissions,
+    });
+    // Prevent unbounded growth
+    evictOverflow();
+    startCacheSweep();
+  };
+
+  const clearPermissionCache = () => {
+    permissionCache.clear();
+    bumpPermissionGeneration();
+    stopCacheSweep();
+  };
+
+  /**
+   * Drop every result that depends on the granted permissions. Runs
+   * automatically whenever they change.
+   */
+  const invalidatePermissionResults = () => {
+    for (const [key, cached] of permissionCache.entries()) {
+      if (cached.dependent) permissionCache.delete(key);
+    }
+    bumpPermissionGeneration();
+  };
+
+  /**
+   * Cache counters since startup (or the last resetCacheStats), for tuning
+   * `ttl` and `maxSize`.
+   */
+  const getCacheStats = (): CacheStats => {
+    const lookups = stats.hits + stats.misses;
+    return {
+      ...stats,
+      size: permissionCache.size,
+      hitRate: lookups > 0 ? stats.hits / lookups : 0,
+    };
+  };
+
+  const resetCacheStats = () => {
+    stats.hits = 0;
+    stats.misses = 0;
+    stats.evictions = 0;
+    stats.expired = 0;
+  };
+
+  return {
+    configureCache,
+    getCacheOptions: (): Readonly<Required<CacheOptions>> => ({ ...options }),
+    getCachedPermission,
+    setCachedPermission,
+    clearPermissionCache,
+    invalidateCache,
+    invalidatePermissionResults,
+    getCacheStats,
+    resetCacheStats,
+    stopCacheSweep,
+  };
 };
+
+export type PermissionCache = ReturnType<typeof createPermissionCache>;
+
+export const defaultPermissionCache = createPermissionCache();
+
+onPermissionsChanged(defaultPermissionCache.invalidatePermissionResults);
+
+export const {
+  configureCache,
+  getCacheOptions,
+  getCachedPermission,
+  setCachedPermission,
+  clearPermissionCache,
+  invalidateCache,
+  invalidatePermissionResults,
+  getCacheStats,
+  resetCacheStats,
+  stopCacheSweep,
+} = defaultPermissionCache;
@@ -1,40 +1,289 @@
-import { isRef, type Ref, ref } from "vue";
-import type { PermissionsArray } from "../types";
+import {
+  effectScope,
+  isRef,
+  shallowRef,
+  triggerRef,
+  watch,
+  type EffectScope,
+} from "vue";
+import type {
+  PermissionGrant,
+  PermissionsArray,
+  ScopedPermissions,
+} from "../types";
+import {
+  onGrantsChanged,
+  resolveGrants,
+  scheduleGrantTransitions,
+} from "./grants";
 
 export interface GlobalConfig {
   permissions: PermissionsArray | null;
   developmentMode: boolean;
+  user?: unknown;
+  scopes?: ScopedPermissions | null;
+  activeScope?: string | null;
 }
 
-const globalConfig: GlobalConfig = {
-  permissions: null,
-  developmentMode: false,
-};
+export const isScopedPermissions = (
+  value: unknown
+): value is ScopedPermissions =>
+  !!value &&
+  typeof value === "object" &&
+  !Array.isArray(value) &&
+  !isRef(value);
 
-// Global reactive permissions - synchronized with globalConfig
-const globalReactivePermissions = ref<string[]>([]);
-
-export const configurePermission = (
-  permissions: PermissionsArray,
-  options?: { developmentMode?: boolean }
-) => {
-  globalConfig.permissions = permissions;
-  globalConfig.developmentMode = options?.developmentMode ?? false;
-  // Also update reactive version for Vue reactivity
-  const permsArray = Array.isArray(permissions) ? permissions : [];
-  globalReactivePermissions.value = permsArray;
+const scheduleTransitions = (permissions: PermissionsArray | null) => {
+  const grants = isRef(permissions) ? permissions.value : permissions;
+  if (Array.isArray(grants)) scheduleGrantTransitions(grants);
 };
 
-export const getReactivePermissions = () => globalReactivePermissions;
+/**
+ * Permission Config
+ * -----------------
+ * The granted permissions, scopes, user and development mode of one
+ * permission instance (see createPermissions). The top-level functions
+ * exported below belong to the default instance.
+ */
+export const createPermissionConfig = () => {
+  const state: GlobalConfig = {
+    permissions: null,
+    developmentMode: false,
+    scopes: null,
+    activeScope: null,
+  };
+
+  // Reactive permissions - synchronized with state. The single source
+  // usePermission, v-permission and watchPermissions observe; triggered on
+  // every change, even when a Ref was edited in place
+  const reactivePermissions = shallowRef<string[]>([]);
+
+  const changeListeners = new Set<() => void>();
+  // Watchers of Ref inputs, stopped when the configuration is replaced.
+  // Detached, so they outlive the component that configured the Ref
+  let refWatchers: EffectScope | null = null;
+  // Set by configurePermission and setPermissions, even with an empty list
+  let configured = false;
+
+  // The list checks use by default: the active scope's, or the flat list
+  const activePermissions = (scope = state.activeScope) => {
+    if (!state.scopes) return state.permissions;
+    return scope != null ? state.scopes[scope] ?? null : null;
+  };
+
+  /**
+   * Configured grants, for `scope` or the active scope, including timed
+   * grants that aren't active right now.
+   */
+  const getPermissionGrants = (scope?: string | null): PermissionGrant[] => {
+    const permissions = activePermissions(scope ?? undefined);
+    if (!permissions) return [];
+
+    if (isRef(permissions)) return permissions.value;
+    return permissions;
+  };
+
+  /**
+   * Current permissions, for `scope` or the active scope. With a flat
+   * (unscoped) configuration the scope is ignored. Timed grants outside
+   * their window are left out.
+   */
+  const getCurrentPermissions = (scope?: string | null): string[] =>
+    resolveGrants(getPermissionGrants(scope));
+
+  /**
+   * Subscribe to changes of the granted permissions: configurePermission,
+   * setPermissionScope, setPermissions, a change inside a configured Ref,
+   * or a timed grant starting or expiring. Returns an unsubscribe function.
+   */
+  const onPermissionsChanged = (listener: () => void) => {
+    changeListeners.add(listener);
+    return () => {
+      changeListeners.delete(listener);
+    };
+  };
+
+  const notifyPermissionsChanged = () => {
+    reactivePermissions.value = getCurrentPermissions();
+    triggerRef(reactivePermissions);
+    changeListeners.forEach((listener) => listener());
+  };
+
+  /**
+   * Watch the active permissions. The callback receives the new and the
+   * previous list, and only runs when their contents differ. Returns an
+   * unsubscribe function.
+   */
+  const watchPermissions = (
+    callback: (permissions: string[], previous: string[]) => void,
+    options?: { immediate?: boolean }
+  ) => {
+    let previous = [...getCurrentPermissions()];
+    if (options?.immediate) callback(previous, []);
 
-export const getCurrentPermissions = (): string[] => {
-  const { permissions } = globalConfig;
-  if (!permissions) return [];
+    return onPermissionsChanged(() => {
+      const current = getCurrentPermissions();
+      if (
+        current.length === previous.length &&
+        current.every((permission, i) => permission === previous[i])
+      ) {
+        return;
+      }
+      const last = previous;
+      previous = [...current];
+      callback(current, last);
+    });
+  };
 
-  if (isRef(permissions)) return permissions.value;
-  return permissions;
+  // Timed grants starting or expiring change the active permissions
+  const stopGrantListener = onGrantsChanged(notifyPermissionsChanged);
+
+  const stopWatchers = () => {
+    refWatchers?.stop();
+    refWatchers = null;
+  };
+
+  // Edits inside a Ref (reassigned or mutated in place) count as changes
+  const watchRefInput = (permissions: PermissionsArray | null) => {
+    if (!isRef(permissions)) return;
+    if (!refWatchers) refWatchers = effectScope(true);
+    refWatchers.run(() =>
+      watch(
+        permissions,
+        () => {
+          scheduleTransitions(permissions);
+          notifyPermissionsChanged();
+        },
+        { deep: true, flush: "sync" }
+      )
+    );
+  };
+
+  /**
+   * Configure the granted permissions: a flat list, or one list per scope
+   * ({ "org:1": [...], "org:2": [...] }) checked against the active scope.
+   */
+  const configurePermission = (
+    permissions: PermissionsArray | ScopedPermissions,
+    options?: { developmentMode?: boolean; scope?: string | null }
+  ) => {
+    stopWatchers();
+    configured = true;
+
+    const lists = isScopedPermissions(permissions)
+      ? Object.values(permissions)
+      : [permissions];
+    if (isScopedPermissions(permissions)) {
+      state.scopes = permissions;
+      state.permissions = null;
+    } else {
+      state.scopes = null;
+      state.permissions = permissions;
+    }
+    lists.forEach((list) => {
+      scheduleTransitions(list);
+      watchRefInput(list);
+    });
+    if (options?.scope !== undefined) state.activeScope = options.scope;
+    state.developmentMode = options?.developmentMode ?? false;
+    // Also updates the reactive version for Vue reactivity
+    notifyPermissionsChanged();
+  };
+
+  /**
+   * Replace the granted permissions, keeping development mode and the
+   * active scope. With scoped sets, only the active scope's list is
+   * replaced; without an active scope nothing is. A configured Ref is
+   * written through.
+   */
+  const setPermissions = (grants: PermissionGrant[]) => {
+    if (state.scopes && state.activeScope == null) {
+      // Which scope's list is meant is unknown; don't touch any of them
+      console.error(
+        "[v-permission] setPermissions() needs an active scope while " +
+          "scoped permissions are configured; call setPermissionScope() " +
+          "first"
+      );
+      return;
+    }
+    configured = true;
+    const current = activePermissions();
+    if (isRef(current)) {
+      // The Ref's watcher schedules transitions and notifies
+      current.value = grants;
+      return;
+    }
+    if (state.scopes && state.activeScope != null) {
+      state.scopes = { ...state.scopes, [state.activeScope]: grants };
+    } else {
+      stopWatchers();
+      state.permissions = grants;
+    }
+    scheduleTransitions(grants);
+    notifyPermissionsChanged();
+  };
+
+  const setPermissionScope = (scope: string | null) => {
+    state.activeScope = scope;
+    notifyPermissionsChanged();
+  };
+
+  return {
+    state,
+    configurePermission,
+    getReactivePermissions: () => reactivePermissions,
+    getPermissionGrants,
+    getCurrentPermissions,
+    onPermissionsChanged,
+    notifyPermissionsChanged,
+    watchPermissions,
+    setPermissions,
+    setPermissionScope,
+    getPermissionScope: () => state.activeScope ?? null,
+    getPermissionScopes: (): string[] =>
+      state.scopes ? Object.keys(state.scopes) : [],
+    // Scoped sets, a Ref or a non-empty list
+    hasConfiguredPermissions: () =>
+      !!state.scopes ||
+      isRef(state.permissions) ||
+      (state.permissions?.length ?? 0) > 0,
+    // Whether permissions were ever configured or set, an empty list (a
+    // logout) included; usePermission only falls back to storage before that
+    wasConfigured: () => configured,
+    isDevMode: () => state.developmentMode,
+    // Current user, handed to policies when a check doesn't pass its own
+    setPermissionUser: (user: unknown) => {
+      state.user = user;
+    },
+    getPermissionUser: () => state.user,
+    /** Stop watching Ref inputs and timed grants */
+    dispose: () => {
+      stopWatchers();
+      stopGrantListener();
+      changeListeners.clear();
+    },
+  };
 };
 
-export const isDevMode = () => globalConfig.developmentMode;
+export type PermissionConfig = ReturnType<typeof createPermissionConfig>;
+
+export const defaultPermissionConfig = createPermissionConfig();
+
+export const {
+  configurePermission,
+  getReactivePermissions,
+  getPermissionGrants,
+  getCurrentPermissions,
+  onPermissionsChanged,
+  notifyPermissionsChanged,
+  watchPermissions,
+  setPermissions,
+  setPermissionScope,
+  getPermissionScope,
+  getPermissionScopes,
+  isDevMode,
+  setPermissionUser,
+  getPermissionUser,
+} = defaultPermissionConfig;
 
-export default globalConfig;
+export default defaultPermissionConfig.state;
@@ -0,0 +1,39 @@
+import { getCurrentPermissions } from "./config";
+import { expandRoles } from "./roles";
+
+/**
+ * Explicit Denies
+ * ---------------
+ * A granted entry starting with "!" is a deny: ["posts.*", "!posts.delete"]
+ * grants every posts permission except posts.delete. Denies may use
+ * wildcards ("!billing.**") and may come from roles, and they win over any
+ * grant in every mode.
+ */
+
+export const DENY_PREFIX = "!";
+
+export const isDenyEntry = (entry: string): boolean =>
+  entry.length > DENY_PREFIX.length && entry.startsWith(DENY_PREFIX);
+
+/**
+ * Split a granted list into allowed and denied permissions (denies are
+ * returned without their "!").
+ */
+export const splitGrants = (
+  granted: string[]
+): { allow: string[]; deny: string[] } => {
+  const allow: string[] = [];
+  const deny: string[] = [];
+  for (const entry of granted) {
+    if (isDenyEntry(entry)) deny.push(entry.slice(DENY_PREFIX.length));
+    else allow.push(entry);
+  }
+  return { allow, deny };
+};
+
+/**
+ * Effective denies for a permission list (the configured one by default),
+ * including denies inherited through roles.
+ */
+export const getDeniedPermissions = (userPermissions?: string[]): string[] =>
+  splitGrants(expandRoles(userPermissions ?? getCurrentPermissions())).deny;
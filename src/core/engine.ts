@@ -0,0 +1,528 @@
+import { hasAsyncChecker, peekAsyncPermission } from "./asyncCheckers";
+import { clearPermissionCache } from "./cache";
+import { getPermissionUser, isDevMode } from "./config";
+import {
+  getGrantedLevel,
+  parseLevel,
+  parseLevelRequirement,
+  satisfiesLevel,
+  type LevelRequirement,
+} from "./levels";
+import { getPermissionSet, type PermissionSet } from "./permissionSet";
+import { getPolicy } from "./policies";
+import { compileRegex, validateRegex } from "./regex";
+import { matchWildcard } from "./wildcard";
+import { isAbilityRule, isPermissionObject } from "@/utils/helpers";
+import type {
+  AbilityRule,
+  PermissionContext,
+  PermissionModeContext,
+  PermissionModeHandler,
+  PermissionMode,
+  PermissionObject,
+  PermissionTrace,
+  PermissionValue,
+} from "../types";
+
+/**
+ * Rule Engine
+ * -----------
+ * The single implementation behind checkPermissionSync, hasPermission,
+ * explainPermission and usePermission().canSync.
+ *
+ * Modes live in a registry: each mode says how one string entry of a group
+ * is tested against the granted permissions and how entry results combine
+ * ("every", "some", "none" or a custom function). Nested rules are
+ * evaluated recursively and combined the same way, so every mode —
+ * including ones added with registerPermissionMode — supports nesting.
+ */
+
+// Guards against self-referencing or absurdly deep rule trees
+export const MAX_RULE_DEPTH = 50;
+
+const modes = new Map<string, PermissionModeHandler>();
+
+// Logs only while the evaluating instance is in development mode
+const createLog =
+  (devMode: () => boolean) =>
+  (...args: any[]) => {
+    if (devMode()) console.log("[v-permission:core]", ...args);
+  };
+
+const defineMode = (name: string, handler: PermissionModeHandler) => {
+  modes.set(name, handler);
+};
+
+export const getMode = (name: string): PermissionModeHandler | undefined =>
+  modes.get(name);
+
+export const getModeNames = (): string[] => Array.from(modes.keys());
+
+/* -------------------------------------------------
+ * Built-in Modes
+ * ------------------------------------------------- */
+// Entries are patterns tested against every granted permission
+const patternMode = (
+  predicate: (pattern: string, permission: string) => boolean
+): PermissionModeHandler => ({
+  combine: "some",
+  test: (entry, { granted }) => granted.some((u) => predicate(entry, u)),
+  matches: (entry, { granted }) => granted.filter((u) => predicate(entry, u)),
+});
+
+defineMode("and", { combine: "every", test: (p, ctx) => ctx.isGranted(p) });
+defineMode("or", { combine: "some", test: (p, ctx) => ctx.isGranted(p) });
+defineMode("not", { combine: "none", test: (p, ctx) => ctx.isGranted(p) });
+defineMode(
+  "startWith",
+  patternMode((p, u) => u.startsWith(p))
+);
+defineMode(
+  "endWith",
+  patternMode((p, u) => u.endsWith(p))
+);
+// Patterns are budget-checked and compiled once (see ./regex)
+defineMode("regex", {
+  combine: "some",
+  validate: (p, group) => validateRegex(p, group),
+  test: (p, { granted }, group) => {
+    const r = compileRegex(p, group);
+    return !!r && granted.some((u) => r.test(u));
+  },
+  matches: (p, { granted }, group) => {
+    const r = compileRegex(p, group);
+    return r ? granted.filter((u) => r.test(u)) : [];
+  },
+});
+defineMode("wildcard", {
+  combine: "some",
+  test: (p, { granted, isGranted }) =>
+    isGranted(p) || granted.some((u) => matchWildcard(p, u)),
+  matches: (p, { granted, isGranted }) =>
+    isGranted(p) ? [p] : granted.filter((u) => matchWildcard(p, u)),
+});
+
+// Entries are level requirements; bare names take the group's min/max
+const levelRequirement = (
+  entry: string,
+  group: PermissionObject
+): LevelRequirement =>
+  parseLevelRequirement(entry, true) ?? {
+    name: entry,
+    min: group.min,
+    max: group.max,
+  };
+
+defineMode("level", {
+  combine: "every",
+  test: (p, { granted }, group) => {
+    const requirement = levelRequirement(p, group);
+    return satisfiesLevel(
+      requirement,
+      getGrantedLevel(granted, requirement.name)
+    );
+  },
+  matches: (p, { granted }, group) => {
+    const requirement = levelRequirement(p, group);
+    return granted.filter((u) => {
+      const parsed = parseLevel(u);
+      return (
+        parsed?.name === requirement.name &&
+        satisfiesLevel(requirement, parsed.level)
+      );
+    });
+  },
+});
+
+const BUILT_IN_MODES = new Set(modes.keys());
+
+/**
+ * Register a custom mode, usable by the directive, guards and composable.
+ * Pass a test function (entries combine with "some") or a full handler:
+ *
+ * registerPermissionMode("exactlyOne", {
+ *   combine: (results) => results.filter(Boolean).length === 1,
+ *   test: (entry, { isGranted }) => isGranted(entry),
+ * });
+ */
+export const registerPermissionMode = (
+  name: string,
+  evaluator: PermissionModeHandler | PermissionModeHandler["test"]
+) => {
+  if (!name || typeof name !== "string") {
+    throw new TypeError("[v-permission] Mode name must be a non-empty string");
+  }
+  if (BUILT_IN_MODES.has(name)) {
+    throw new Error(`[v-permission] Cannot override built-in mode "${name}"`);
+  }
+
+  const handler =
+    typeof evaluator === "function"
+      ? { combine: "some" as const, test: evaluator }
+      : evaluator;
+
+  if (!handler || typeof handler.test !== "function") {
+    throw new TypeError(
+      `[v-permission] Mode "${name}" needs a test function`
+    );
+  }
+
+  defineMode(name, handler);
+  // Rules using this name may have been cached as invalid
+  clearPermissionCache();
+};
+
+export const unregisterPermissionMode = (name: string) => {
+  if (BUILT_IN_MODES.has(name)) return false;
+  clearPermissionCache();
+  return modes.delete(name);
+};
+
+/* -------------------------------------------------
+ * Evaluation State
+ * ------------------------------------------------- */
+export interface EvaluationState extends PermissionModeContext {
+  context: PermissionContext;
+  /** User handed to policies when the context has none */
+  getUser: () => unknown;
+  /** Development-mode log of the evaluating instance */
+  log: (...args: any[]) => void;
+  resolveAbility: (rule: AbilityRule) => boolean;
+  /** Answers permissions handled by an async checker (see registerAsyncChecker) */
+  resolveAsync: (permission: string) => boolean;
+}
+
+/**
+ * Run the policy registered for an ability rule. Abilities without a
+ * policy are treated as a plain permission check of the ability name.
+ */
+export const runPolicy = (
+  rule: AbilityRule,
+  state: PermissionModeContext & {
+    context: PermissionContext;
+    getUser?: () => unknown;
+  }
+): boolean | Promise<boolean> => {
+  // An explicit deny of the ability wins over its policy
+  if (state.isDenied(rule.ability)) return false;
+
+  const policy = getPolicy(rule.ability);
+  if (!policy) return state.isGranted(rule.ability);
+
+  return policy(
+    state.context.user ?? (state.getUser ?? getPermissionUser)(),
+    rule.subject ?? state.context.subject,
+    { ...state.context, permissions: state.granted }
+  );
+};
+
+export const createEvaluationState = (
+  userPermissions: string[] | PermissionSet,
+  context: PermissionContext = {},
+  getUser: () => unknown = getPermissionUser,
+  devMode: () => boolean = isDevMode
+): EvaluationState => {
+  // The index of the granted list is built once per list and reused
+  const { granted, isDenied, matchGrant, matchLevel } = Array.isArray(
+    userPermissions
+  )
+    ? getPermissionSet(userPermissions)
+    : userPermissions;
+  const state: EvaluationState = {
+    granted,
+    isDenied,
+    isGranted: (p) =>
+      !isDenied(p) &&
+      (matchGrant(p) ||
+        matchLevel(p) ||
+        (hasAsyncChecker(p) && state.resolveAsync(p))),
+    context,
+    getUser,
+    log: createLog(devMode),
+    // Cached checker result; hasPermission swaps in a resolver that waits
+    resolveAsync: peekAsyncPermission,
+    resolveAbility: (rule) => {
+      try {
+        const result = runPolicy(rule, state);
+        // Async policies can't be answered synchronously; hasPermission
+        // resolves them up front and swaps in its own resolveAbility
+        if (result instanceof Promise) {
+          result.catch(() => {});
+          return false;
+        }
+        return result === true;
+      } catch (e) {
+        state.log(`Policy "${rule.ability}" failed:`, e);
+        return false;
+      }
+    },
+  };
+  return state;
+};
+
+/**
+ * Collect every ability rule in a (compiled) rule tree, so async policies
+ * can be resolved before the synchronous walk.
+ */
+export const collectAbilityRules = (
+  rule: PermissionValue,
+  depth = 0,
+  found: AbilityRule[] = []
+): AbilityRule[] => {
+  if (depth > MAX_RULE_DEPTH || !rule || typeof rule !== "object") {
+    return found;
+  }
+  if (isAbilityRule(rule)) {
+    found.push(rule);
+  } else if (Array.isArray(rule)) {
+    rule.forEach((r) => collectAbilityRules(r, depth + 1, found));
+  } else if (isPermissionObject(rule) && Array.isArray(rule.permissions)) {
+    rule.permissions.forEach((r) => collectAbilityRules(r, depth + 1, found));
+  }
+  return found;
+};
+
+/**
+ * Whether a (compiled) rule has parts only hasPermission can settle: ability
+ * rules (their policy may be async) or permissions answered by async
+ * checkers, which the synchronous walk denies until their result is cached.
+ */
+export const hasAsyncParts = (rule: PermissionValue, depth = 0): boolean => {
+  if (depth > MAX_RULE_DEPTH || !rule) return false;
+  if (typeof rule === "string") return hasAsyncChecker(rule);
+  if (Array.isArray(rule)) {
+    return rule.some((r) => hasAsyncParts(r, depth + 1));
+  }
+  if (isAbilityRule(rule)) return true;
+  if (isPermissionObject(rule) && Array.isArray(rule.permissions)) {
+    return rule.permissions.some((r) => hasAsyncParts(r, depth + 1));
+  }
+  return false;
+};
+
+/* -------------------------------------------------
+ * Evaluation
+ * ------------------------------------------------- */
+
+// Groups that resolve without looking at their entries
+const checkGroup = (
+  value: PermissionObject
+): { result: boolean; reason: string } | null => {
+  const { permissions, mode } = value;
+
+  if (!modes.has(mode)) {
+    return { result: false, reason: `Invalid permission mode: "${mode}"` };
+  }
+  if (!Array.isArray(permissions) || permissions.length === 0) {
+    return { result: false, reason: "Permission array is empty or invalid" };
+  }
+  if (permissions.includes("*")) {
+    return { result: true, reason: "Universal access" };
+  }
+  return null;
+};
+
+const testEntry = (
+  handler: PermissionModeHandler,
+  entry: string,
+  state: EvaluationState,
+  group: PermissionObject
+): boolean => {
+  const invalid = handler.validate?.(entry, group);
+  if (invalid) {
+    state.log(`${invalid}:`, entry);
+    return false;
+  }
+  try {
+    return handler.test(entry, state, group) === true;
+  } catch (e) {
+    state.log("Mode evaluation error:", entry, e);
+    return false;
+  }
+};
+
+const combineEntries = <T>(
+  combine: PermissionModeHandler["combine"],
+  entries: T[],
+  check: (entry: T) => boolean
+): boolean => {
+  if (typeof combine === "function") return combine(entries.map(check)) === true;
+  if (combine === "every") return entries.every(check);
+  if (combine === "none") return !entries.some(check);
+  return entries.some(check);
+};
+
+/**
+ * Evaluate a compiled rule tree to a boolean.
+ */
+export const evaluateRule = (
+  rule: PermissionValue,
+  state: EvaluationState,
+  depth = 0
+): boolean => {
+  if (depth > MAX_RULE_DEPTH) {
+    state.log(
+      `Permission rule nesting exceeds max depth (${MAX_RULE_DEPTH})`
+    );
+    return false;
+  }
+
+  if (rule === "*") return true;
+
+  if (typeof rule === "string") return state.isGranted(rule);
+
+  if (Array.isArray(rule)) {
+    if (rule.includes("*")) return true;
+    return rule.some((r) => evaluateRule(r, state, depth + 1));
+  }
+
+  if (isAbilityRule(rule)) return state.resolveAbility(rule);
+
+  if (isPermissionObject(rule)) {
+    const verdict = checkGroup(rule);
+    if (verdict) {
+      if (!verdict.result) {
+        state.log(verdict.reason, "Valid modes:", getModeNames());
+      }
+      return verdict.result;
+    }
+
+    const handler = modes.get(rule.mode)!;
+    return combineEntries(handler.combine, rule.permissions, (p) =>
+      typeof p === "string"
+        ? testEntry(handler, p, state, rule)
+        : evaluateRule(p, state, depth + 1)
+    );
+  }
+
+  state.log("Invalid permission value:", rule);
+  return false;
+};
+
+/**
+ * Evaluate a compiled rule tree to a trace (see explainPermission).
+ */
+export const explainRule = (
+  rule: PermissionValue,
+  state: EvaluationState,
+  depth = 0
+): PermissionTrace => {
+  const node = (
+    value: PermissionValue,
+    result: boolean,
+    extra: Partial<PermissionTrace> = {}
+  ): PermissionTrace => ({
+    rule: value,
+    result,
+    matched: [],
+    missing: [],
+    ...extra,
+  });
+
+  const permissionNode = (p: string) => {
+    if (state.isDenied(p)) {
+      return node(p, false, { missing: [p], reason: "Explicitly denied" });
+    }
+    return state.isGranted(p)
+      ? node(p, true, { matched: [p] })
+      : node(p, false, { missing: [p] });
+  };
+
+  if (depth > MAX_RULE_DEPTH) {
+    return node(rule, false, {
+      reason: `Rule nesting exceeds max depth (${MAX_RULE_DEPTH})`,
+    });
+  }
+
+  if (rule === "*") {
+    return node(rule, true, { matched: ["*"], reason: "Universal access" });
+  }
+
+  if (typeof rule === "string") return permissionNode(rule);
+
+  const group = (
+    value: PermissionValue,
+    mode: PermissionMode,
+    children: PermissionTrace[],
+    combine: PermissionModeHandler["combine"]
+  ): PermissionTrace =>
+    node(
+      value,
+      combineEntries(combine, children, (c) => c.result),
+      {
+        mode,
+        matched: Array.from(new Set(children.flatMap((c) => c.matched))),
+        missing: Array.from(new Set(children.flatMap((c) => c.missing))),
+        children,
+      }
+    );
+
+  if (Array.isArray(rule)) {
+    if (rule.includes("*")) {
+      return node(rule, true, {
+        mode: "or",
+        matched: ["*"],
+        reason: "Universal access",
+      });
+    }
+    const children = rule.map((r) => explainRule(r, state, depth + 1));
+    return group(rule, "or", children, "some");
+  }
+
+  if (isAbilityRule(rule)) {
+    if (!getPolicy(rule.ability) || state.isDenied(rule.ability)) {
+      return { ...permissionNode(rule.ability), rule };
+    }
+    try {
+      const result = runPolicy(rule, state);
+      if (result instanceof Promise) {
+        result.catch(() => {});
+        return node(rule, false, {
+          reason: `Policy "${rule.ability}" is async; use hasPermission for its result`,
+        });
+      }
+      return node(rule, result === true, {
+        reason: `Policy "${rule.ability}" returned ${result}`,
+      });
+    } catch (e) {
+      return node(rule, false, {
+        reason: `Policy "${rule.ability}" threw: ${
+          e instanceof Error ? e.message : e
+        }`,
+      });
+    }
+  }
+
+  if (isPermissionObject(rule)) {
+    const verdict = checkGroup(rule);
+    if (verdict) {
+      return node(rule, verdict.result, {
+        mode: rule.mode,
+        matched: verdict.result ? ["*"] : [],
+        reason: verdict.reason,
+      });
+    }
+
+    const handler = modes.get(rule.mode)!;
+    const entryNode = (p: string): PermissionTrace => {
+      const invalid = handler.validate?.(p, rule);
+      if (invalid) return node(p, false, { missing: [p], reason: invalid });
+      if (!testEntry(handler, p, state, rule)) {
+        return node(p, false, {
+          missing: [p],
+          ...(state.isDenied(p) && { reason: "Explicitly denied" }),
+        });
+      }
+      return node(p, true, {
+        matched: handler.matches?.(p, state, rule) ?? [p],
+      });
+    };
+
+    const children = rule.permissions.map((p) =>
+      typeof p === "string" ? entryNode(p) : explainRule(p, state, depth + 1)
+    );
+    return group(rule, rule.mode, children, handler.combine);
+  }
+
+  return node(rule, false, { reason: "Invalid permission value" });
+};
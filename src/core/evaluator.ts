@@ -1,7 +1,41 @@
-import { getCachedPermission, setCachedPermission } from "@/core/cache";
-import { getCurrentPermissions, isDevMode } from "./config";
-import { stableStringify, isPermissionObject } from "@/utils/helpers";
-import type { PermissionValue, PermissionMode } from "../types";
+import {
+  getCachedPermission,
+  setCachedPermission,
+  type PermissionCache,
+} from "@/core/cache";
+import {
+  getCachedAsyncPermission,
+  resolveAsyncPermission,
+} from "./asyncCheckers";
+import {
+  getCurrentPermissions,
+  getPermissionUser,
+  isDevMode,
+  type PermissionConfig,
+} from "./config";
+import {
+  collectAbilityRules,
+  createEvaluationState,
+  evaluateRule,
+  explainRule,
+  hasAsyncParts,
+  runPolicy,
+} from "./engine";
+import { precompilePermission } from "./expression";
+import { resolveGrants } from "./grants";
+import {
+  getListPermissionSet,
+  getPermissionSet,
+  type PermissionSet,
+} from "./permissionSet";
+import { stableStringify } from "@/utils/helpers";
+import type {
+  AbilityRule,
+  PermissionContext,
+  PermissionGrant,
+  PermissionValue,
+  PermissionTrace,
+} from "../types";
 
 /**
  * Main Permission Evaluator
@@ -9,162 +43,200 @@ import type { PermissionValue, PermissionMode } from "../types";
  * Supports:
  * - "*" (universal access)
  * - string[]
- * - object { permissions, mode }
+ * - object { permissions, mode } (entries may be nested rules)
+ * - expression strings ("a && (b || c) && !d")
+ * - dot-segment wildcards, in rules and in granted permissions
+ * - role names in granted permissions (see defineRoles)
+ * - ability rules { ability, subject } resolved by policies (see definePolicy)
+ * - prefixes answered by async checkers (see registerAsyncChecker)
  * - async caching
+ *
+ * All entry points delegate to the rule engine (./engine), so sync, async
+ * and explain results always agree.
+ *
+ * createEvaluator binds the checks to one instance's config and cache (see
+ * createPermissions); the top-level functions use the default instance.
  */
 
-const VALID_MODES = new Set<PermissionMode>([
-  "and",
-  "or",
-  "not",
-  "startWith",
-  "endWith",
-  "regex",
-]);
-
-const validateRegexPattern = (pattern: string): boolean => {
-  try {
-    const regex = new RegExp(pattern);
-    regex.test("");
-    return true;
-  } catch {
-    return false;
-  }
-};
-
-/**
- * Synchronous permission evaluation
- * Used internally by directives that need immediate results
- */
-export const checkPermissionSync = (
-  permissionValue: PermissionValue,
-  userPermissions?: string[]
-): boolean => {
-  const current = userPermissions ?? getCurrentPermissions();
-
-  if (permissionValue === "*") return true;
-
-  if (typeof permissionValue === "string") {
-    return current.includes(permissionValue);
-  }
-
-  if (Array.isArray(permissionValue)) {
-    if (permissionValue.includes("*")) return true;
-    return permissionValue.some((v) => current.includes(v));
-  }
-
-  if (isPermissionObject(permissionValue)) {
-    const { permissions, mode } = permissionValue;
+export const createEvaluator = (
+  config: Pick<
+    PermissionConfig,
+    "getCurrentPermissions" | "getPermissionUser" | "isDevMode"
+  >,
+  cache: Pick<PermissionCache, "getCachedPermission" | "setCachedPermission">
+) => {
+  /**
+   * The second argument of the checks is either an explicit permission list
+   * or an options object ({ scope, user, subject, ... }) merged into the
+   * context; without a list, the scope's (or active scope's) permissions
+   * are used. An explicit list is indexed by its contents, the configured
+   * one by identity (see getPermissionSet).
+   */
+  const resolveCheck = (
+    permissionsOrOptions: PermissionGrant[] | PermissionContext | undefined,
+    context: PermissionContext
+  ): { set: PermissionSet; context: PermissionContext } => {
+    const merged =
+      permissionsOrOptions && !Array.isArray(permissionsOrOptions)
+        ? { ...permissionsOrOptions, ...context }
+        : context;
+    const set = Array.isArray(permissionsOrOptions)
+      ? getListPermissionSet(resolveGrants(permissionsOrOptions))
+      : getPermissionSet(config.getCurrentPermissions(merged.scope));
+    return { set, context: merged };
+  };
 
-    if (!VALID_MODES.has(mode)) {
-      return false;
-    }
+  // Plain strings are used as-is; other rules are serialized
+  const ruleKey = (rule: PermissionValue) =>
+    typeof rule === "string" ? `s:${rule}` : stableStringify(rule);
+
+  /**
+   * Synchronous permission evaluation
+   * Used internally by directives that need immediate results
+   */
+  const checkPermissionSync = (
+    permissionValue: PermissionValue,
+    userPermissions?: PermissionGrant[] | PermissionContext,
+    context: PermissionContext = {}
+  ): boolean => {
+    const rule = precompilePermission(permissionValue);
+    if (rule === null) return false;
+
+    const check = resolveCheck(userPermissions, context);
+    const state = createEvaluationState(
+      check.set,
+      check.context,
+      config.getPermissionUser,
+      config.isDevMode
+    );
+    return evaluateRule(rule, state);
+  };
 
-    if (!Array.isArray(permissions) || permissions.length === 0) {
+  const hasPermission = async (
+    permissionValue: PermissionValue,
+    userPermissions?: PermissionGrant[] | PermissionContext,
+    context: PermissionContext = {}
+  ): Promise<boolean> => {
+    const check = resolveCheck(userPermissions, context);
+    // The permission set's version stands in for the granted list, so the
+    // key costs the size of the rule, not of the user's permissions
+    const cacheKey = `${check.set.version}:${ruleKey(permissionValue)}`;
+    const cached = cache.getCachedPermission(cacheKey);
+    if (cached !== null) return cached;
+
+    const rule = precompilePermission(permissionValue);
+    if (rule === null) {
+      cache.setCachedPermission(cacheKey, false);
       return false;
     }
 
-    if (permissions.includes("*")) return true;
-
-    const checks: Record<string, () => boolean> = {
-      and: () => permissions.every((p) => current.includes(p)),
-      or: () => permissions.some((p) => current.includes(p)),
-      not: () => !permissions.some((p) => current.includes(p)),
-      startWith: () =>
-        permissions.some((p) => current.some((u) => u.startsWith(p))),
-      endWith: () =>
-        permissions.some((p) => current.some((u) => u.endsWith(p))),
-      regex: () =>
-        permissions.some((p) => {
-          if (!validateRegexPattern(p)) {
-            return false;
-          }
+    // Resolve (possibly async) policies first, then run the same synchronous
+    // walk as checkPermissionSync
+    const abilities = collectAbilityRules(rule);
+    const state = createEvaluationState(
+      check.set,
+      check.context,
+      config.getPermissionUser,
+      config.isDevMode
+    );
+
+    if (abilities.length > 0) {
+      const resolved = new Map<AbilityRule, boolean>();
+      await Promise.all(
+        abilities.map(async (ability) => {
           try {
-            const r = new RegExp(p);
-            return current.some((u) => r.test(u));
+            resolved.set(ability, (await runPolicy(ability, state)) === true);
           } catch {
-            return false;
+            resolved.set(ability, false);
           }
-        }),
-    };
+        })
+      );
+      state.resolveAbility = (ability) => resolved.get(ability) ?? false;
+    }
 
-    return checks[mode]?.() ?? false;
-  }
+    // Async checker results are only known once asked for: walk, wait for the
+    // ones the walk needed, and walk again until nothing is outstanding
+    const asyncResults = new Map<string, boolean>();
+    let outstanding: string[] = [];
+    state.resolveAsync = (permission) => {
+      const known =
+        asyncResults.get(permission) ?? getCachedAsyncPermission(permission);
+      if (known !== null) {
+        asyncResults.set(permission, known);
+        return known;
+      }
+      outstanding.push(permission);
+      return false;
+    };
 
-  return false;
-};
+    let result = evaluateRule(rule, state);
+    while (outstanding.length > 0) {
+      const batch = Array.from(new Set(outstanding));
+      outstanding = [];
+      const values = await Promise.all(batch.map(resolveAsyncPermission));
+      batch.forEach((permission, i) => asyncResults.set(permission, values[i]));
+      result = evaluateRule(rule, state);
+    }
 
-export const hasPermission = async (
-  permissionValue: PermissionValue,
-  userPermissions?: string[]
-): Promise<boolean> => {
-  const current = userPermissions ?? getCurrentPermissions();
-  const cacheKey = stableStringify({ permissionValue, current });
-  const cached = getCachedPermission(cacheKey);
-  if (cached !== null) return cached;
-
-  const log = (...args: any[]) => {
-    if (isDevMode()) console.log("[v-permission:core]", ...args);
+    // Policy and async checker results depend on more than the rule, and are
+    // cached on their own terms, so the combined result is not cached
+    if (abilities.length === 0 && asyncResults.size === 0) {
+      cache.setCachedPermission(cacheKey, result);
+    }
+    return result;
   };
 
-  const evaluate = async (value: PermissionValue): Promise<boolean> => {
-    if (value === "*") return true;
-
-    if (typeof value === "string") return current.includes(value);
-    if (Array.isArray(value)) {
-      if (value.includes("*")) return true;
-      return value.some((v) => current.includes(v));
+  /**
+   * Explain a permission check
+   * ---------------------------
+   * Evaluates a rule like checkPermissionSync, but returns a trace of every
+   * node with the permissions it matched or missed, so a denial can be traced
+   * back to the exact sub-rule that failed.
+   */
+  const explainPermission = (
+    permissionValue: PermissionValue,
+    userPermissions?: PermissionGrant[] | PermissionContext,
+    context: PermissionContext = {}
+  ): PermissionTrace => {
+    const rule = precompilePermission(permissionValue);
+    if (rule === null) {
+      return {
+        rule: permissionValue,
+        result: false,
+        matched: [],
+        missing: [],
+        reason: "Invalid permission expression",
+      };
     }
-    if (isPermissionObject(value)) {
-      const { permissions, mode } = value;
-
-      if (!VALID_MODES.has(mode)) {
-        log(
-          `Invalid permission mode: "${mode}". Valid modes:`,
-          Array.from(VALID_MODES)
-        );
-        return false;
-      }
 
-      if (!Array.isArray(permissions) || permissions.length === 0) {
-        log("Permission array is empty or invalid");
-        return false;
-      }
+    const check = resolveCheck(userPermissions, context);
+    const state = createEvaluationState(
+      check.set,
+      check.context,
+      config.getPermissionUser,
+      config.isDevMode
+    );
+    return explainRule(rule, state);
+  };
 
-      if (permissions.includes("*")) return true;
-
-      const checks: Record<string, () => boolean> = {
-        and: () => permissions.every((p) => current.includes(p)),
-        or: () => permissions.some((p) => current.includes(p)),
-        not: () => !permissions.some((p) => current.includes(p)),
-        startWith: () =>
-          permissions.some((p) => current.some((u) => u.startsWith(p))),
-        endWith: () =>
-          permissions.some((p) => current.some((u) => u.endsWith(p))),
-        regex: () =>
-          permissions.some((p) => {
-            if (!validateRegexPattern(p)) {
-              log("Invalid or dangerous regex pattern:", p);
-              return false;
-            }
-            try {
-              const r = new RegExp(p);
-              return current.some((u) => r.test(u));
-            } catch (e) {
-              log("Regex evaluation error:", p, e);
-              return false;
-            }
-          }),
-      };
+  return { checkPermissionSync, hasPermission, explainPermission };
+};
 
-      return checks[mode]?.() ?? false;
-    }
+export type PermissionEvaluator = ReturnType<typeof createEvaluator>;
 
-    log("Invalid permission value:", value);
-    return false;
-  };
+export const defaultEvaluator = createEvaluator(
+  { getCurrentPermissions, getPermissionUser, isDevMode },
+  { getCachedPermission, setCachedPermission }
+);
+
+export const { checkPermissionSync, hasPermission, explainPermission } =
+  defaultEvaluator;
 
-  const result = await evaluate(permissionValue);
-  setCachedPermission(cacheKey, result);
-  return result;
+/**
+ * Whether checkPermissionSync may deny a rule that hasPermission allows:
+ * it contains ability rules or permissions answered by async checkers.
+ */
+export const isAsyncPermission = (permissionValue: PermissionValue) => {
+  const rule = precompilePermission(permissionValue);
+  return rule !== null && hasAsyncParts(rule);
 };
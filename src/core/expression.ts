@@ -0,0 +1,263 @@
+import { logDebug } from "@/utils/debug";
+import { isPermissionObject } from "@/utils/helpers";
+import type { PermissionValue } from "../types";
+
+/**
+ * Permission Expressions
+ * ----------------------
+ * Compiles strings like "posts.edit && (posts.publish || admin) && !banned"
+ * into the same rule tree the evaluator understands:
+ *
+ * {
+ *   mode: "and",
+ *   permissions: [
+ *     "posts.edit",
+ *     { mode: "or", permissions: ["posts.publish", "admin"] },
+ *     { mode: "not", permissions: ["banned"] },
+ *   ],
+ * }
+ *
+ * Operators: `&&`, `||`, `!` and parentheses. `!` binds tightest, then `&&`,
+ * then `||`. Permission names may be quoted ('a b' or "a b").
+ */
+
+const MAX_EXPRESSION_DEPTH = 50;
+const MAX_COMPILED_EXPRESSIONS = 1000;
+
+const OPERATOR_PATTERN = /&&|\|\||[!()]/;
+
+type Token =
+  | { type: "and" | "or" | "not" | "lparen" | "rparen"; pos: number }
+  | { type: "name"; value: string; pos: number };
+
+/**
+ * Returns true when a string rule should be parsed as an expression
+ * rather than matched as a literal permission name.
+ */
+export const isPermissionExpression = (value: unknown): value is string =>
+  typeof value === "string" && OPERATOR_PATTERN.test(value);
+
+const syntaxError = (expression: string, message: string, pos: number) =>
+  new SyntaxError(
+    `[v-permission] ${message} at position ${pos} in "${expression}"`
+  );
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const ch = expression[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === "&" || ch === "|") {
+      if (expression[i + 1] !== ch) {
+        throw syntaxError(expression, `Expected "${ch}${ch}"`, i);
+      }
+      tokens.push({ type: ch === "&" ? "and" : "or", pos: i });
+      i += 2;
+      continue;
+    }
+
+    if (ch === "!") {
+      tokens.push({ type: "not", pos: i });
+      i++;
+      continue;
+    }
+
+    if (ch === "(" || ch === ")") {
+      tokens.push({ type: ch === "(" ? "lparen" : "rparen", pos: i });
+      i++;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      const end = expression.indexOf(ch, i + 1);
+      if (end === -1) {
+        throw syntaxError(expression, "Unterminated string", i);
+      }
+      const value = expression.slice(i + 1, end);
+      if (!value) {
+        throw syntaxError(expression, "Empty permission name", i);
+      }
+      tokens.push({ type: "name", value, pos: i });
+      i = end + 1;
+      continue;
+    }
+
+    const start = i;
+    while (i < expression.length && !/[\s&|!()'"]/.test(expression[i])) {
+      i++;
+    }
+    tokens.push({ type: "name", value: expression.slice(start, i), pos: start });
+  }
+
+  return tokens;
+};
+
+/**
+ * Parse an expression string into a rule tree.
+ * Throws a SyntaxError describing the first problem found.
+ */
+export const parsePermissionExpression = (
+  expression: string
+): PermissionValue => {
+  const tokens = tokenize(expression);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const describe = (token?: Token) =>
+    !token
+      ? "end of expression"
+      : token.type === "name"
+      ? `"${token.value}"`
+      : `"${
+          { and: "&&", or: "||", not: "!", lparen: "(", rparen: ")" }[
+            token.type
+          ]
+        }"`;
+  const unexpected = (token?: Token) =>
+    syntaxError(
+      expression,
+      `Unexpected ${describe(token)}`,
+      token?.pos ?? expression.length
+    );
+
+  // Flatten chains like a && b && c into one group
+  const group = (mode: "and" | "or", parts: PermissionValue[]) =>
+    parts.length === 1 ? parts[0] : { mode, permissions: parts };
+
+  const parseOr = (depth: number): PermissionValue => {
+    const parts = [parseAnd(depth)];
+    while (peek()?.type === "or") {
+      index++;
+      parts.push(parseAnd(depth));
+    }
+    return group("or", parts);
+  };
+
+  const parseAnd = (depth: number): PermissionValue => {
+    const parts = [parseUnary(depth)];
+    while (peek()?.type === "and") {
+      index++;
+      parts.push(parseUnary(depth));
+    }
+    return group("and", parts);
+  };
+
+  const parseUnary = (depth: number): PermissionValue => {
+    if (depth > MAX_EXPRESSION_DEPTH) {
+      throw syntaxError(
+        expression,
+        `Nesting exceeds max depth (${MAX_EXPRESSION_DEPTH})`,
+        peek()?.pos ?? expression.length
+      );
+    }
+
+    const token = peek();
+    if (!token) throw unexpected(token);
+
+    if (token.type === "not") {
+      index++;
+      return { mode: "not", permissions: [parseUnary(depth + 1)] };
+    }
+
+    if (token.type === "lparen") {
+      index++;
+      const inner = parseOr(depth + 1);
+      if (peek()?.type !== "rparen") throw unexpected(peek());
+      index++;
+      return inner;
+    }
+
+    if (token.type === "name") {
+      index++;
+      return token.value;
+    }
+
+    throw unexpected(token);
+  };
+
+  const rule = parseOr(0);
+  if (index < tokens.length) throw unexpected(peek());
+  return rule;
+};
+
+// Parsed expressions keyed by source; null marks a known syntax error.
+// Shared by every instance, so syntax errors are logged once, while the
+// default instance is in development mode
+const compiledExpressions = new Map<string, PermissionValue | null>();
+
+const compileExpression = (expression: string): PermissionValue | null => {
+  if (compiledExpressions.has(expression)) {
+    return compiledExpressions.get(expression)!;
+  }
+
+  let compiled: PermissionValue | null;
+  try {
+    compiled = parsePermissionExpression(expression);
+  } catch (e) {
+    logDebug(
+      "Invalid permission expression:",
+      e instanceof Error ? e.message : e
+    );
+    compiled = null;
+  }
+
+  // Prevent unbounded growth
+  if (compiledExpressions.size >= MAX_COMPILED_EXPRESSIONS) {
+    const oldest = compiledExpressions.keys().next().value as string;
+    compiledExpressions.delete(oldest);
+  }
+
+  compiledExpressions.set(expression, compiled);
+  return compiled;
+};
+
+/**
+ * Resolve every expression string in a rule into its rule tree.
+ * Parsed expressions are memoized by source, so compiling the same rule
+ * again never re-parses; rules without expressions are returned as-is.
+ * Returns null when the rule contains an invalid expression.
+ *
+ * Only literal-matching positions are compiled: entries of startWith,
+ * endWith and regex groups are patterns and are left untouched.
+ */
+export const precompilePermission = (
+  rule: PermissionValue
+): PermissionValue | null => {
+  if (isPermissionExpression(rule)) return compileExpression(rule);
+  if (!rule || typeof rule !== "object") return rule;
+
+  const compileEntries = (entries: PermissionValue[]) => {
+    let changed = false;
+    const result: PermissionValue[] = [];
+    for (const entry of entries) {
+      const c = precompilePermission(entry);
+      if (c === null) return null;
+      if (c !== entry) changed = true;
+      result.push(c);
+    }
+    return changed ? result : entries;
+  };
+
+  if (Array.isArray(rule)) return compileEntries(rule);
+
+  if (
+    isPermissionObject(rule) &&
+    Array.isArray(rule.permissions) &&
+    ["and", "or", "not"].includes(rule.mode)
+  ) {
+    const permissions = compileEntries(rule.permissions);
+    if (permissions === null) return null;
+    return permissions === rule.permissions ? rule : { ...rule, permissions };
+  }
+
+  return rule;
+};
+
+export const clearCompiledPermissions = () => compiledExpressions.clear();
@@ -0,0 +1,170 @@
+import { ref } from "vue";
+import type { PermissionGrant, TimedGrant } from "../types";
+import { sameEntries } from "../utils/helpers";
+
+/**
+ * Timed Grants
+ * ------------
+ * A granted entry may be an object limiting when it applies:
+ *
+ * ["posts.view", { permission: "incidents.manage", expiresAt: endOfShift }]
+ *
+ * `notBefore` and `expiresAt` accept a Date, a timestamp or a date string.
+ * Grants outside their window are ignored by every check. Each start and
+ * end is scheduled, so listeners (the directive, usePermission) re-evaluate
+ * the moment a grant becomes active or expires.
+ */
+
+// setTimeout can't wait longer than this; longer waits are re-armed
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+// Bumped whenever a timed grant starts or expires
+const grantClock = ref(0);
+const listeners = new Set<() => void>();
+const transitions = new Set<number>();
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+// Resolved lists of timed grants, reused until the next start/end so the
+// result keeps its identity (and its permission set) between transitions
+const resolved = new WeakMap<
+  PermissionGrant[],
+  {
+    permissions: string[];
+    from: number;
+    until: number;
+    // Entries resolved, to catch lists edited in place
+    entries: PermissionGrant[];
+  }
+>();
+
+export const isTimedGrant = (value: unknown): value is TimedGrant =>
+  !!value &&
+  typeof value === "object" &&
+  typeof (value as TimedGrant).permission === "string";
+
+const toTime = (value: TimedGrant["expiresAt"]): number | null => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.getTime();
+  return typeof value === "number" ? value : Date.parse(value);
+};
+
+/**
+ * True if a grant applies at `now`. Unparseable dates never apply.
+ */
+export const isGrantActive = (grant: PermissionGrant, now = Date.now()) => {
+  if (typeof grant === "string") return true;
+  if (!isTimedGrant(grant)) return false;
+
+  const start = toTime(grant.notBefore);
+  const end = toTime(grant.expiresAt);
+  if (Number.isNaN(start) || Number.isNaN(end)) return false;
+  return (start === null || start <= now) && (end === null || now < end);
+};
+
+/**
+ * The permissions of a grant list that apply at `now`. Lists of plain
+ * strings are returned as-is.
+ */
+export const resolveGrants = (
+  grants: PermissionGrant[],
+  now = Date.now()
+): string[] => {
+  if (grants.every((g) => typeof g === "string")) return grants as string[];
+
+  const memo = resolved.get(grants);
+  if (
+    memo &&
+    sameEntries(memo.entries, grants) &&
+    memo.from <= now &&
+    now < memo.until
+  ) {
+    return memo.permissions;
+  }
+
+  // The result holds from the last start/end at or before `now` until the
+  // next one after it
+  let from = -Infinity;
+  let until = Infinity;
+  for (const grant of grants) {
+    if (!isTimedGrant(grant)) continue;
+    for (const time of [toTime(grant.notBefore), toTime(grant.expiresAt)]) {
+      if (time === null || Number.isNaN(time)) continue;
+      if (time <= now) from = Math.max(from, time);
+      else until = Math.min(until, time);
+    }
+  }
+
+  const permissions = grants
+    .filter((g) => isGrantActive(g, now))
+    .map((g) => (typeof g === "string" ? g : g.permission));
+  resolved.set(grants, { permissions, from, until, entries: [...grants] });
+  return permissions;
+};
+
+const armTimer = () => {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  if (transitions.size === 0) return;
+
+  const delay = Math.min(...transitions) - Date.now();
+  timer = setTimeout(onTransition, Math.min(Math.max(delay, 0), MAX_TIMEOUT));
+  // Don't keep a server process alive just for a pending expiry
+  (timer as { unref?: () => void }).unref?.();
+};
+
+const onTransition = () => {
+  timer = null;
+  const now = Date.now();
+  let changed = false;
+  for (const time of transitions) {
+    if (time <= now) {
+      transitions.delete(time);
+      changed = true;
+    }
+  }
+  if (changed) {
+    grantClock.value++;
+    listeners.forEach((listener) => listener());
+  }
+  armTimer();
+};
+
+/**
+ * Schedule a notification for every future start/end in a grant list.
+ */
+export const scheduleGrantTransitions = (grants: PermissionGrant[]) => {
+  const now = Date.now();
+  let added = false;
+  for (const grant of grants) {
+    if (!isTimedGrant(grant)) continue;
+    for (const time of [toTime(grant.notBefore), toTime(grant.expiresAt)]) {
+      if (time !== null && time > now && !transitions.has(time)) {
+        transitions.add(time);
+        added = true;
+      }
+    }
+  }
+  if (added) armTimer();
+};
+
+export const clearGrantSchedule = () => {
+  transitions.clear();
+  armTimer();
+};
+
+/**
+ * Reactive counter that changes whenever a timed grant starts or expires;
+ * read it in a computed to re-run when the active permissions change.
+ */
+export const getGrantClock = () => grantClock;
+
+/**
+ * Subscribe to timed grants starting or expiring. Returns an unsubscribe
+ * function.
+ */
+export const onGrantsChanged = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
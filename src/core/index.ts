@@ -1,3 +1,15 @@
 export * from "./config";
 export * from "./cache";
 export * from "./evaluator";
+export * from "./permissionSet";
+export * from "./expression";
+export * from "./wildcard";
+export * from "./levels";
+export * from "./regex";
+export * from "./roles";
+export * from "./deny";
+export * from "./grants";
+export * from "./policies";
+export * from "./asyncCheckers";
+export * from "./engine";
+export * from "./instance";
@@ -0,0 +1,77 @@
+import type { InjectionKey } from "vue";
+import {
+  createPermissionCache,
+  defaultPermissionCache,
+  type PermissionCache,
+} from "./cache";
+import {
+  createPermissionConfig,
+  defaultPermissionConfig,
+  type PermissionConfig,
+} from "./config";
+import {
+  createEvaluator,
+  defaultEvaluator,
+  type PermissionEvaluator,
+} from "./evaluator";
+import { STORAGE_KEY } from "@/utils/storage";
+import type { CacheOptions } from "../types";
+
+/**
+ * Permission Instances
+ * --------------------
+ * An instance bundles the config (granted permissions, scopes, user), the
+ * result cache, the evaluator and the storage key. Two apps on the same
+ * page (micro-frontends, Storybook, SSR requests) each get their own with
+ * createPermissions, so they don't share state.
+ *
+ * The top-level functions (configurePermission, hasPermission, ...) and
+ * PermissionPlugin use the default instance. Roles, policies, modes, regex
+ * limits and async checkers are definitions, shared by every instance.
+ */
+
+export type PermissionInstance = Omit<PermissionConfig, "dispose"> &
+  PermissionCache &
+  PermissionEvaluator & {
+    storageKey: string;
+    /** Stop watchers and timers; the instance must not be used afterwards */
+    dispose: () => void;
+  };
+
+export const PERMISSION_INSTANCE_KEY: InjectionKey<PermissionInstance> =
+  Symbol("v-permission");
+
+// Instances without a storageKey get their own, numbered in creation order
+// so the same app setup finds its entry again after a reload
+let unnamedInstances = 0;
+
+export const createPermissionInstance = (
+  options: { cache?: CacheOptions; storageKey?: string } = {}
+): PermissionInstance => {
+  const config = createPermissionConfig();
+  const cache = createPermissionCache(options.cache);
+  const stopInvalidation = config.onPermissionsChanged(
+    cache.invalidatePermissionResults
+  );
+
+  return {
+    ...config,
+    ...cache,
+    ...createEvaluator(config, cache),
+    storageKey: options.storageKey ?? `${STORAGE_KEY}:${++unnamedInstances}`,
+    dispose: () => {
+      stopInvalidation();
+      config.dispose();
+      cache.clearPermissionCache();
+    },
+  };
+};
+
+export const defaultPermissions: PermissionInstance = {
+  ...defaultPermissionConfig,
+  ...defaultPermissionCache,
+  ...defaultEvaluator,
+  storageKey: STORAGE_KEY,
+  // The default instance lives as long as the page
+  dispose: defaultPermissionCache.stopCacheSweep,
+};
@@ -0,0 +1,133 @@
+/**
+ * Permission Levels
+ * -----------------
+ * A granted permission "name:N" (N a non-negative integer) grants level N
+ * of "name"; when several are granted, the highest wins. Requirements are
+ * written with a comparator after the last colon:
+ *
+ * - "reports:>=2", "reports:>2", "reports:<=3", "reports:<3", "reports:=2"
+ * - "reports:2..4" (inclusive range)
+ *
+ * These work as plain permission strings in any rule. In mode "level" a
+ * bare "reports:2" means "at least 2", and entries without a level use the
+ * group's `min`/`max`: { mode: "level", permissions: ["reports"], min: 2 }
+ */
+
+export interface LevelRequirement {
+  name: string;
+  min?: number;
+  max?: number;
+}
+
+const LEVEL_PATTERN = /^(\d+)$/;
+const COMPARATOR_PATTERN = /^(>=|<=|>|<|=)(\d+)$/;
+const RANGE_PATTERN = /^(\d+)\.\.(\d+)$/;
+
+const splitLevel = (permission: string): [string, string] | null => {
+  const index = permission.lastIndexOf(":");
+  if (index <= 0 || index === permission.length - 1) return null;
+  return [permission.slice(0, index), permission.slice(index + 1)];
+};
+
+/**
+ * Parse a granted "name:N" permission.
+ */
+export const parseLevel = (
+  permission: string
+): { name: string; level: number } | null => {
+  const parts = splitLevel(permission);
+  if (!parts || !LEVEL_PATTERN.test(parts[1])) return null;
+  return { name: parts[0], level: Number(parts[1]) };
+};
+
+/**
+ * Parse a level requirement. Bare levels ("reports:2") are only accepted
+ * when `bareIsMin` is set (mode "level"); elsewhere "reports:2" stays a
+ * literal permission name.
+ */
+export const parseLevelRequirement = (
+  entry: string,
+  bareIsMin = false
+): LevelRequirement | null => {
+  const parts = splitLevel(entry);
+  if (!parts) return null;
+  const [name, spec] = parts;
+
+  const range = RANGE_PATTERN.exec(spec);
+  if (range) {
+    const min = Number(range[1]);
+    const max = Number(range[2]);
+    return min <= max ? { name, min, max } : null;
+  }
+
+  const comparison = COMPARATOR_PATTERN.exec(spec);
+  if (comparison) {
+    const level = Number(comparison[2]);
+    switch (comparison[1]) {
+      case ">=":
+        return { name, min: level };
+      case ">":
+        return { name, min: level + 1 };
+      case "<=":
+        return { name, max: level };
+      case "<":
+        return level > 0 ? { name, max: level - 1 } : null;
+      default:
+        return { name, min: level, max: level };
+    }
+  }
+
+  if (bareIsMin && LEVEL_PATTERN.test(spec)) {
+    return { name, min: Number(spec) };
+  }
+  return null;
+};
+
+/**
+ * Highest level of `name` among the granted permissions, or null.
+ */
+export const getGrantedLevel = (
+  granted: string[],
+  name: string
+): number | null => {
+  let highest: number | null = null;
+  for (const permission of granted) {
+    const parsed = parseLevel(permission);
+    if (!parsed || parsed.name !== name) continue;
+    if (highest === null || parsed.level > highest) highest = parsed.level;
+  }
+  return highest;
+};
+
+export const satisfiesLevel = (
+  requirement: LevelRequirement,
+  level: number | null
+): boolean =>
+  level !== null &&
+  (requirement.min === undefined || level >= requirement.min) &&
+  (requirement.max === undefined || level <= requirement.max);
+
+/**
+ * Build a matcher for comparator strings ("reports:>=2") against a granted
+ * list. Returns false for anything that isn't a level requirement.
+ */
+export const createLevelMatcher = (granted: string[]) => {
+  let levels: Map<string, number> | undefined;
+
+  return (required: string): boolean => {
+    const requirement = parseLevelRequirement(required);
+    if (!requirement) return false;
+
+    // Index granted levels on first use
+    if (!levels) {
+      levels = new Map();
+      for (const permission of granted) {
+        const parsed = parseLevel(permission);
+        if (parsed && parsed.level > (levels.get(parsed.name) ?? -1)) {
+          levels.set(parsed.name, parsed.level);
+        }
+      }
+    }
+    return satisfiesLevel(requirement, levels.get(requirement.name) ?? null);
+  };
+};
@@ -0,0 +1,103 @@
+import { getPermissionGeneration } from "./cache";
+import { splitGrants } from "./deny";
+import { createLevelMatcher } from "./levels";
+import { expandRoles } from "./roles";
+import { createGrantMatcher } from "./wildcard";
+
+/**
+ * Versioned Permission Sets
+ * -------------------------
+ * Checking a rule needs an index of the granted list: roles expanded,
+ * denies split out, exact permissions in a Set and wildcard patterns
+ * collected. Building it is linear in the number of permissions, so it is
+ * built once per list and reused by every check until the list or the
+ * permission configuration changes (configurePermission, setPermissions,
+ * roles, modes... anything that clears the permission cache).
+ *
+ * Each built set gets a unique `version`, which cache keys use instead of
+ * the serialized permission list.
+ *
+ * Configured lists are looked up by identity: edits made in place reach the
+ * store's change notifications (a configured Ref is watched deeply), which
+ * start a new generation. Lists passed to a single check are looked up by
+ * their contents instead, so inline lists share a set and edits in place
+ * get a new one.
+ */
+
+export interface PermissionSet {
+  /** Unique per built set; identifies the granted list in cache keys */
+  version: number;
+  /** Granted permissions, with roles expanded and denied ones removed */
+  granted: string[];
+  /** `granted` as a Set, for O(1) exact lookups */
+  index: Set<string>;
+  isDenied: (permission: string) => boolean;
+  /** Exact or wildcard grant match (ignores denies) */
+  matchGrant: (permission: string) => boolean;
+  /** Level grant match, e.g. "reports:>=2" against "reports:3" */
+  matchLevel: (permission: string) => boolean;
+}
+
+interface Entry {
+  set: PermissionSet;
+  generation: number;
+}
+
+// Sets of explicit lists kept at once; the oldest is dropped beyond that
+const MAX_LIST_SETS = 100;
+
+let nextVersion = 0;
+const sets = new WeakMap<string[], Entry>();
+const listSets = new Map<string, Entry>();
+
+const buildPermissionSet = (permissions: string[]): PermissionSet => {
+  // Denies ("!x") win: denied permissions are dropped from the granted
+  // list used by pattern modes, and isGranted checks them first
+  const { allow, deny } = splitGrants(expandRoles(permissions));
+  const isDenied =
+    deny.length > 0 ? createGrantMatcher(deny) : (_p: string) => false;
+  const granted =
+    deny.length > 0 ? allow.filter((u) => !isDenied(u)) : allow;
+
+  return {
+    version: ++nextVersion,
+    granted,
+    index: new Set(granted),
+    isDenied,
+    matchGrant: createGrantMatcher(granted),
+    matchLevel: createLevelMatcher(granted),
+  };
+};
+
+/**
+ * The permission set for a granted list, built on first use and reused
+ * while the permission generation stays the same.
+ */
+export const getPermissionSet = (permissions: string[]): PermissionSet => {
+  const generation = getPermissionGeneration();
+  const entry = sets.get(permissions);
+  if (entry && entry.generation === generation) return entry.set;
+
+  const set = buildPermissionSet(permissions);
+  sets.set(permissions, { set, generation });
+  return set;
+};
+
+/**
+ * The permission set for an explicit list passed to a check, keyed by its
+ * contents rather than its identity.
+ */
+export const getListPermissionSet = (permissions: string[]): PermissionSet => {
+  const generation = getPermissionGeneration();
+  const key = JSON.stringify(permissions);
+  const entry = listSets.get(key);
+  if (entry && entry.generation === generation) return entry.set;
+
+  const set = buildPermissionSet(permissions);
+  listSets.delete(key);
+  listSets.set(key, { set, generation });
+  if (listSets.size > MAX_LIST_SETS) {
+    listSets.delete(listSets.keys().next().value as string);
+  }
+  return set;
+};
@@ -0,0 +1,31 @@
+import type { PolicyHandler } from "../types";
+
+/**
+ * Policies
+ * --------
+ * Resource-level checks that can't be expressed with permission strings:
+ *
+ * definePolicy("post.edit", (user, post) => post.authorId === user.id)
+ *
+ * A rule `{ ability: "post.edit", subject: post }` runs the policy with the
+ * current user and the subject. Abilities without a policy fall back to a
+ * plain permission check of the ability name.
+ */
+
+const policies = new Map<string, PolicyHandler>();
+
+export const definePolicy = (ability: string, handler: PolicyHandler) => {
+  if (typeof handler !== "function") {
+    throw new TypeError(
+      `[v-permission] Policy "${ability}" must be a function`
+    );
+  }
+  policies.set(ability, handler);
+};
+
+export const removePolicy = (ability: string) => policies.delete(ability);
+
+export const clearPolicies = () => policies.clear();
+
+export const getPolicy = (ability: string): PolicyHandler | undefined =>
+  policies.get(ability);
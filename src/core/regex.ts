@@ -0,0 +1,213 @@
+import { clearPermissionCache } from "./cache";
+import type { RegexOptions } from "../types";
+
+/**
+ * Safe Regex Patterns
+ * -------------------
+ * Patterns used by mode "regex" come from rule definitions (route meta,
+ * templates, API responses), so they are checked before they are compiled:
+ *
+ * - a length and complexity budget (groups + quantifiers + alternations)
+ * - a static check rejecting nested repetition such as "(a+)+" or
+ *   "((ab)*c)*", the usual cause of catastrophic backtracking
+ * - the same for repeated alternation such as "(a|aa)+": alternatives
+ *   that can match the same input backtrack just as badly
+ *
+ * Compiled patterns (and rejections) are kept in a small LRU, so rules are
+ * not recompiled on every check.
+ */
+
+const DEFAULT_OPTIONS: Required<RegexOptions> = {
+  maxLength: 256,
+  maxComplexity: 32,
+  cacheSize: 200,
+};
+
+// Stateful flags (g, y) would make RegExp.test depend on previous calls
+const ALLOWED_FLAGS = "imsu";
+
+const INVALID_REGEX_REASON = "Invalid or dangerous regex pattern";
+
+let options: Required<RegexOptions> = { ...DEFAULT_OPTIONS };
+
+type CompiledPattern = { regex: RegExp } | { error: string };
+const compiled = new Map<string, CompiledPattern>();
+
+export const configureRegex = (overrides: RegexOptions = {}) => {
+  options = { ...DEFAULT_OPTIONS, ...overrides };
+  compiled.clear();
+  // Results cached under the previous budget may no longer hold
+  clearPermissionCache();
+};
+
+const QUANTIFIER_BRACES = /^\{(\d+)(,(\d*))?\}/;
+
+/**
+ * Statically check a pattern against the configured budget. Returns the
+ * reason it was rejected, or null. Syntax errors are left to RegExp.
+ */
+export const analyzeRegexPattern = (pattern: string): string | null => {
+  if (pattern.length > options.maxLength) {
+    return `Regex pattern exceeds ${options.maxLength} characters`;
+  }
+
+  // One frame per open group: does it contain a repeated atom or a "|"?
+  type Frame = { repeats: boolean; alternates: boolean };
+  const frames: Frame[] = [{ repeats: false, alternates: false }];
+  // The atom a following quantifier would apply to
+  let atom: Frame | null = null;
+  let complexity = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+
+    if (ch === "\\") {
+      i++;
+      atom = { repeats: false, alternates: false };
+      continue;
+    }
+
+    if (ch === "[") {
+      // Skip the character class; its contents can't nest quantifiers
+      i++;
+      if (pattern[i] === "^") i++;
+      if (pattern[i] === "]") i++;
+      while (i < pattern.length && pattern[i] !== "]") {
+        if (pattern[i] === "\\") i++;
+        i++;
+      }
+      atom = { repeats: false, alternates: false };
+      continue;
+    }
+
+    if (ch === "(") {
+      complexity++;
+      frames.push({ repeats: false, alternates: false });
+      // "(?:", "(?=", "(?<name>": the "?" is not a quantifier
+      atom = null;
+      continue;
+    }
+
+    if (ch === ")") {
+      const frame =
+        frames.length > 1
+          ? frames.pop()!
+          : { repeats: false, alternates: false };
+      const parent = frames[frames.length - 1];
+      parent.repeats = parent.repeats || frame.repeats;
+      parent.alternates = parent.alternates || frame.alternates;
+      atom = frame;
+      continue;
+    }
+
+    if (ch === "|") {
+      complexity++;
+      frames[frames.length - 1].alternates = true;
+      atom = null;
+      continue;
+    }
+
+    let repeats: boolean | null = null;
+    let length = 1;
+    if (ch === "*" || ch === "+") {
+      repeats = true;
+    } else if (ch === "?") {
+      repeats = false;
+    } else if (ch === "{") {
+      const braces = QUANTIFIER_BRACES.exec(pattern.slice(i));
+      if (braces) {
+        const [, min, comma, max] = braces;
+        repeats = comma ? max === "" || Number(max) > 1 : Number(min) > 1;
+        length = braces[0].length;
+      }
+    }
+
+    if (repeats === null) {
+      atom = { repeats: false, alternates: false };
+      continue;
+    }
+
+    i += length - 1;
+    if (pattern[i + 1] === "?") i++; // lazy quantifier
+
+    if (atom) {
+      complexity++;
+      if (repeats && atom.repeats) {
+        return "Regex pattern has nested quantifiers";
+      }
+      if (repeats && atom.alternates) {
+        return "Regex pattern has a quantified alternation";
+      }
+      if (repeats) frames[frames.length - 1].repeats = true;
+    }
+    atom = null;
+  }
+
+  if (complexity > options.maxComplexity) {
+    return `Regex pattern exceeds complexity budget (${options.maxComplexity})`;
+  }
+  return null;
+};
+
+const compilePattern = (
+  pattern: string,
+  flags = "",
+  anchored = false
+): CompiledPattern => {
+  const key = `${anchored ? "^" : ""}/${flags}/${pattern}`;
+  const hit = compiled.get(key);
+  if (hit) {
+    // Refresh LRU position
+    compiled.delete(key);
+    compiled.set(key, hit);
+    return hit;
+  }
+
+  let entry: CompiledPattern;
+  const unsupported = Array.from(flags).filter(
+    (f) => !ALLOWED_FLAGS.includes(f)
+  );
+  const rejection = unsupported.length
+    ? `Unsupported regex flags: "${unsupported.join("")}"`
+    : analyzeRegexPattern(pattern);
+
+  if (rejection) {
+    entry = { error: rejection };
+  } else {
+    try {
+      const source = anchored ? `^(?:${pattern})$` : pattern;
+      entry = { regex: new RegExp(source, flags) };
+    } catch {
+      entry = { error: INVALID_REGEX_REASON };
+    }
+  }
+
+  if (compiled.size >= options.cacheSize) {
+    const oldest = compiled.keys().next().value as string | undefined;
+    if (oldest !== undefined) compiled.delete(oldest);
+  }
+  compiled.set(key, entry);
+  return entry;
+};
+
+/**
+ * Compiled RegExp for a pattern, or null if it is invalid or rejected.
+ */
+export const compileRegex = (
+  pattern: string,
+  { flags, anchored }: { flags?: string; anchored?: boolean } = {}
+): RegExp | null => {
+  const entry = compilePattern(pattern, flags, anchored);
+  return "regex" in entry ? entry.regex : null;
+};
+
+/**
+ * Why a pattern can't be used, or null if it compiles within budget.
+ */
+export const validateRegex = (
+  pattern: string,
+  { flags, anchored }: { flags?: string; anchored?: boolean } = {}
+): string | null => {
+  const entry = compilePattern(pattern, flags, anchored);
+  return "error" in entry ? entry.error : null;
+};
@@ -0,0 +1,120 @@
+import { clearPermissionCache } from "./cache";
+import type { RoleDefinition, RoleMap } from "../types";
+
+/**
+ * Roles
+ * -----
+ * Maps role names to permissions so the backend can hand out roles while
+ * rules keep checking permissions:
+ *
+ * defineRoles({
+ *   editor: ["posts.*"],
+ *   admin: { inherits: ["editor"], permissions: ["users.*"] },
+ * })
+ *
+ * Role names found in a user's granted list are expanded into their
+ * permissions (including inherited ones) before evaluation.
+ */
+
+interface ResolvedRole {
+  permissions: string[];
+  // The role itself plus every role it inherits from, directly or not
+  roles: Set<string>;
+}
+
+const resolvedRoles = new Map<string, ResolvedRole>();
+
+const normalizeDefinition = (definition: RoleDefinition) =>
+  Array.isArray(definition)
+    ? { inherits: [], permissions: definition }
+    : {
+        inherits: definition.inherits ?? [],
+        permissions: definition.permissions ?? [],
+      };
+
+/**
+ * Register the role table, replacing any previous definition.
+ * Throws when a role inherits from an unknown role or when inheritance
+ * is circular.
+ */
+export const defineRoles = (roles: RoleMap) => {
+  const definitions = new Map(
+    Object.entries(roles).map(([name, def]) => [name, normalizeDefinition(def)])
+  );
+  const resolved = new Map<string, ResolvedRole>();
+
+  const resolve = (name: string, path: string[]): ResolvedRole => {
+    const done = resolved.get(name);
+    if (done) return done;
+
+    if (path.includes(name)) {
+      throw new Error(
+        `[v-permission] Circular role inheritance: ${[...path, name].join(
+          " -> "
+        )}`
+      );
+    }
+
+    const definition = definitions.get(name);
+    if (!definition) {
+      throw new Error(
+        `[v-permission] Role "${path[path.length - 1]}" inherits from unknown role "${name}"`
+      );
+    }
+
+    const permissions = new Set(definition.permissions);
+    const inheritedRoles = new Set([name]);
+    for (const parent of definition.inherits) {
+      const inherited = resolve(parent, [...path, name]);
+      inherited.permissions.forEach((p) => permissions.add(p));
+      inherited.roles.forEach((r) => inheritedRoles.add(r));
+    }
+
+    const role = { permissions: Array.from(permissions), roles: inheritedRoles };
+    resolved.set(name, role);
+    return role;
+  };
+
+  definitions.forEach((_def, name) => resolve(name, []));
+
+  resolvedRoles.clear();
+  resolved.forEach((role, name) => resolvedRoles.set(name, role));
+  clearPermissionCache();
+};
+
+export const clearRoles = () => {
+  resolvedRoles.clear();
+  clearPermissionCache();
+};
+
+/**
+ * Permissions granted by a role, including inherited ones.
+ */
+export const getRolePermissions = (role: string): string[] =>
+  resolvedRoles.get(role)?.permissions ?? [];
+
+/**
+ * Expand role names in a granted list into their permissions.
+ * The role names themselves are kept, so they can still be checked directly.
+ */
+export const expandRoles = (granted: string[]): string[] => {
+  if (resolvedRoles.size === 0) return granted;
+
+  const roles = granted.filter((g) => resolvedRoles.has(g));
+  if (roles.length === 0) return granted;
+
+  const expanded = new Set(granted);
+  for (const role of roles) {
+    resolvedRoles.get(role)!.permissions.forEach((p) => expanded.add(p));
+  }
+  return Array.from(expanded);
+};
+
+/**
+ * Returns true when the granted list holds `role`, either directly or
+ * through a role that inherits from it.
+ */
+export const grantsRole = (granted: string[], role: string): boolean =>
+  granted.some(
+    (g) => g === role || (resolvedRoles.get(g)?.roles.has(role) ?? false)
+  );
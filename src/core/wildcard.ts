@@ -0,0 +1,74 @@
+/**
+ * Dot-Segment Wildcards
+ * ---------------------
+ * Permission strings are dot-separated segments ("posts.comments.edit").
+ * In a pattern:
+ * - "*"  matches exactly one segment  ("posts.*"  → "posts.edit")
+ * - "**" matches zero or more segments ("org.**"  → "org", "org.a.b")
+ *
+ * Patterns work in both directions: as rules (mode "wildcard") and as
+ * granted permissions (a user holding "posts.*" satisfies "posts.delete").
+ */
+
+const SEGMENT_SEPARATOR = ".";
+
+export const hasWildcard = (value: string): boolean => value.includes("*");
+
+const matchSegments = (
+  pattern: string[],
+  value: string[],
+  pi: number,
+  vi: number
+): boolean => {
+  while (pi < pattern.length) {
+    const segment = pattern[pi];
+
+    if (segment === "**") {
+      // Collapse consecutive "**" and try every possible split
+      while (pattern[pi + 1] === "**") pi++;
+      if (pi === pattern.length - 1) return true;
+      for (let k = vi; k <= value.length; k++) {
+        if (matchSegments(pattern, value, pi + 1, k)) return true;
+      }
+      return false;
+    }
+
+    if (vi >= value.length) return false;
+    if (segment !== "*" && segment !== value[vi]) return false;
+    if (segment === "*" && !value[vi]) return false;
+
+    pi++;
+    vi++;
+  }
+
+  return vi === value.length;
+};
+
+/**
+ * Returns true when `value` matches the dot-segment `pattern`.
+ */
+export const matchWildcard = (pattern: string, value: string): boolean => {
+  if (!hasWildcard(pattern)) return pattern === value;
+  return matchSegments(
+    pattern.split(SEGMENT_SEPARATOR),
+    value.split(SEGMENT_SEPARATOR),
+    0,
+    0
+  );
+};
+
+/**
+ * Build a matcher answering "does this permission list grant `required`?".
+ * Exact grants are indexed once; granted patterns are only scanned when
+ * there is no exact match. A bare "*" or "**" grant allows everything.
+ */
+export const createGrantMatcher = (granted: string[]) => {
+  const exact = new Set(granted);
+  const patterns = granted.filter(hasWildcard);
+  const grantsAll = exact.has("*") || exact.has("**");
+
+  return (required: string): boolean =>
+    grantsAll ||
+    exact.has(required) ||
+    patterns.some((p) => matchWildcard(p, required));
+};
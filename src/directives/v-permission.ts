@@ -1,7 +1,27 @@
-import { checkPermissionSync, hasPermission } from "@/core/evaluator";
-import { logDebug } from "@/utils/debug";
-import type { DirectiveBinding } from "vue";
-import { isRef } from "vue";
+import { onAsyncPermissionResolved } from "@/core/asyncCheckers";
+import { isAsyncPermission } from "@/core/evaluator";
+import {
+  defaultPermissions,
+  type PermissionInstance,
+} from "@/core/instance";
+import { createDebugLogger, type DebugLogger } from "@/utils/debug";
+import { stableStringify } from "@/utils/helpers";
+import {
+  isRef,
+  isVNode,
+  type ComponentInternalInstance,
+  type ComponentPublicInstance,
+  type DirectiveBinding,
+  type ObjectDirective,
+  type Ref,
+  type VNode,
+} from "vue";
+import type {
+  DisableOptions,
+  PermissionContext,
+  PermissionValue,
+  ScopedRule,
+} from "@/types";
 
 /**
  * v-permission directive
@@ -9,30 +29,415 @@ import { isRef } from "vue";
  * Usage:
  * <button v-permission="'admin'">Admin Only</button>
  * <div v-permission:show="['editor','moderator']">Visible only for editors</div>
+ * <button v-permission="{ rule: 'posts.edit', scope: orgScope }">Edit in this organization</button>
+ * <button v-permission="{ ability: 'post.edit', subject: post }">Edit</button>
+ * <button v-permission:disable="'posts.publish'">Publish</button>
+ * <div v-permission:class.locked="'posts.edit'">Toggles "locked" when denied</div>
+ * <textarea v-permission:attr.readonly="'posts.edit'"></textarea>
+ *
+ * v-permission-else on the next sibling shows fallback content while the
+ * permission is denied, like v-else:
+ * <button v-permission="'reports.export'">Export</button>
+ * <a v-permission-else href="/pricing">Upgrade to Pro</a>
+ *
+ * The directive checks against one permission instance: the default one
+ * for vPermission, or the one it was created for (createPermissionDirective,
+ * registered by app.use(createPermissions(...))). It re-evaluates when that
+ * instance's permissions change, even if the host component doesn't
+ * re-render; `.once` opts out, `.lazy` only follows actual changes of the
+ * permission list.
  */
 
-interface PermissionElement extends HTMLElement {
-  _vPermissionOriginalDisplay?: string;
-  _vPermissionSkipUpdates?: boolean;
-  _vPermissionParent?: Node | null;
-  _vPermissionNextSibling?: Node | null;
-  _vPermissionComment?: Comment | null;
+type DirectiveInstance = Pick<
+  PermissionInstance,
+  | "checkPermissionSync"
+  | "hasPermission"
+  | "explainPermission"
+  | "isDevMode"
+  | "onPermissionsChanged"
+  | "watchPermissions"
+>;
+
+// State of an element the directive acts on, kept out of the element itself
+interface ElementState {
+  /** v-permission target, or v-permission-else fallback */
+  kind: "permission" | "else";
+  originalDisplay?: string;
+  /** Placeholder while the element is removed */
+  comment?: Comment;
+  parent?: Node | null;
+  disabled?: DisabledState;
+  locked?: LockedState;
+  /** Last result applied, read by a v-permission-else sibling */
+  allowed?: boolean;
+  fallback?: HTMLElement;
+  fallbackOf?: HTMLElement;
+  /** Modifiers of a v-permission-else fallback */
+  modifiers?: Modifiers;
+}
+
+// State of one directive binding: its element, or the root anchor of a
+// component with a fragment or <Teleport> root
+interface HostState {
+  binding: DirectiveBinding;
+  valueRef: Ref | null;
+  /** stableStringify of the value last evaluated */
+  lastValue: string;
+  skipUpdates: boolean;
+  /** Elements the binding acts on */
+  targets: HTMLElement[];
+  /** Bumped per evaluation; results of older ones are dropped */
+  run: number;
+  /** Last result applied to the targets */
+  allowed: boolean;
+  unsubscribe: () => void;
+}
+
+type Modifiers = Partial<Record<string, boolean>>;
+
+const elementStates = new WeakMap<HTMLElement, ElementState>();
+const hostStates = new WeakMap<Node, HostState>();
+
+const stateOf = (
+  el: HTMLElement,
+  kind: ElementState["kind"] = "permission",
+) => {
+  let state = elementStates.get(el);
+  if (!state) {
+    state = { kind };
+    elementStates.set(el, state);
+  }
+  return state;
+};
+
+// What the element looked like before `disable` mode changed it
+interface DisabledState {
+  disabled: string | null;
+  ariaDisabled: string | null;
+  title: string | null;
+  addedClass: boolean;
+  block: (event: Event) => void;
+}
+
+// Classes `class` mode added and attribute values `attr` mode replaced
+interface LockedState {
+  classes: string[];
+  attributes: Record<string, string | null>;
 }
 
+const DEFAULT_DISABLED_CLASS = "v-permission-disabled";
+
+// Modifiers of the directive itself; in `class`/`attr` mode any other
+// modifier names a class or an attribute
+const RESERVED_MODIFIERS = new Set(["once", "lazy", "show", "disable"]);
+
+// Removal placeholders, so v-permission-else finds a removed sibling
+const placeholderOwners = new WeakMap<Node, HTMLElement>();
+
+// `class` mode without a class modifier
+const DEFAULT_DENIED_CLASS = "v-permission-denied";
+
+// `attr` mode without an attribute modifier
+const DEFAULT_DENIED_ATTRIBUTE = "readonly";
+
+// Values of enumerated attributes while denied; others are boolean ("")
+const DENIED_ATTRIBUTE_VALUES: Record<string, string> = {
+  contenteditable: "false",
+  draggable: "false",
+};
+
+// Events a disabled element must not react to
+const BLOCKED_EVENTS = ["click", "dblclick", "keydown", "keyup", "keypress"];
+
+type DisplayMode = "remove" | "show" | "disable" | "class" | "attr";
+
+const displayMode = (modifiers: Modifiers, arg?: string): DisplayMode => {
+  if (arg === "class" || arg === "attr") return arg;
+  if (arg === "disable" || modifiers.disable) return "disable";
+  if (arg === "show" || modifiers.show) return "show";
+  return "remove";
+};
+
+const isScopedRule = (value: unknown): value is ScopedRule =>
+  !!value &&
+  typeof value === "object" &&
+  "rule" in value &&
+  typeof (value as ScopedRule).scope === "string";
+
 /**
- * Evaluate permission and update element visibility/existence
+ * Rule and check options of a binding value: `{ rule, scope }` checks the
+ * rule against that scope's permissions instead of the active scope
+ */
+const checkArgs = (
+  value: unknown,
+): [PermissionValue, PermissionContext | undefined] =>
+  isScopedRule(value)
+    ? [value.rule, { scope: value.scope }]
+    : [value as PermissionValue, undefined];
+
+// Current display, computed style first for CSS-set values
+const captureDisplay = (el: HTMLElement) => {
+  try {
+    return window.getComputedStyle(el).display || el.style.display || "";
+  } catch {
+    return el.style.display || "";
+  }
+};
+
+/**
+ * Disable an element: `disabled`/`aria-disabled`, the disabled class and
+ * title, and no click or keyboard events. Keeps its original state for
+ * enableElement. Runs on every denied evaluation, since a re-render (e.g.
+ * `:disabled="saving"`) can reset what it set.
+ */
+function disableElement(
+  el: HTMLElement,
+  options: DisableOptions,
+  log: DebugLogger,
+) {
+  const state = stateOf(el);
+  const className = options.class ?? DEFAULT_DISABLED_CLASS;
+
+  const disabled = state.disabled;
+  if (!disabled) {
+    const block = (event: Event) => {
+      // Keep keyboard navigation working on focusable hosts
+      if ((event as KeyboardEvent).key === "Tab") return;
+      event.preventDefault();
+      event.stopImmediatePropagation();
+    };
+    state.disabled = {
+      disabled: el.getAttribute("disabled"),
+      ariaDisabled: el.getAttribute("aria-disabled"),
+      title: el.getAttribute("title"),
+      addedClass: !!className && !el.classList.contains(className),
+      block,
+    };
+    BLOCKED_EVENTS.forEach((type) => el.addEventListener(type, block, true));
+    log("Disabled element");
+  } else {
+    // Values a re-render put in place of ours are the ones to restore
+    const current = el.getAttribute("disabled");
+    if (current !== "") disabled.disabled = current;
+    const ariaDisabled = el.getAttribute("aria-disabled");
+    if (ariaDisabled !== "true") disabled.ariaDisabled = ariaDisabled;
+    const title = el.getAttribute("title");
+    if (options.title && title !== options.title) disabled.title = title;
+    if (className && !el.classList.contains(className)) {
+      disabled.addedClass = true;
+    }
+  }
+
+  el.setAttribute("disabled", "");
+  el.setAttribute("aria-disabled", "true");
+  if (className) el.classList.add(className);
+  if (options.title) el.setAttribute("title", options.title);
+}
+
+const restoreAttribute = (
+  el: HTMLElement,
+  name: string,
+  value: string | null,
+) => {
+  if (value === null) el.removeAttribute(name);
+  else el.setAttribute(name, value);
+};
+
+/**
+ * Undo disableElement, restoring the attributes the element had before
+ */
+function enableElement(
+  el: HTMLElement,
+  options: DisableOptions,
+  log: DebugLogger,
+) {
+  const state = elementStates.get(el);
+  const disabled = state?.disabled;
+  if (!state || !disabled) return;
+
+  restoreAttribute(el, "disabled", disabled.disabled);
+  restoreAttribute(el, "aria-disabled", disabled.ariaDisabled);
+  if (options.title) restoreAttribute(el, "title", disabled.title);
+  if (disabled.addedClass) {
+    el.classList.remove(options.class ?? DEFAULT_DISABLED_CLASS);
+  }
+  BLOCKED_EVENTS.forEach((type) =>
+    el.removeEventListener(type, disabled.block, true),
+  );
+  state.disabled = undefined;
+  log("Re-enabled element");
+}
+
+// Class or attribute names given as modifiers, e.g. `:class.locked.muted`
+const lockNames = (modifiers: Modifiers, fallback: string) => {
+  const names = Object.keys(modifiers).filter(
+    (name) => modifiers[name] && !RESERVED_MODIFIERS.has(name),
+  );
+  return names.length > 0 ? names : [fallback];
+};
+
+/**
+ * `class` mode adds the modifier classes, `attr` mode sets the modifier
+ * attributes (readonly, contenteditable="false", draggable="false", ...)
+ */
+function lockElement(
+  el: HTMLElement,
+  mode: "class" | "attr",
+  modifiers: Modifiers,
+  log: DebugLogger,
+) {
+  const state = stateOf(el);
+  const relock = !!state.locked;
+  const locked: LockedState = state.locked ?? { classes: [], attributes: {} };
+
+  // Runs on every denied evaluation: a re-render (`:class`, `:readonly`)
+  // may have replaced the classes and attributes set before
+  if (mode === "class") {
+    lockNames(modifiers, DEFAULT_DENIED_CLASS).forEach((name) => {
+      if (el.classList.contains(name)) return;
+      el.classList.add(name);
+      if (!locked.classes.includes(name)) locked.classes.push(name);
+    });
+  } else {
+    lockNames(modifiers, DEFAULT_DENIED_ATTRIBUTE).forEach((name) => {
+      const value = DENIED_ATTRIBUTE_VALUES[name] ?? "";
+      const current = el.getAttribute(name);
+      // The value before the first lock, or the one a re-render put back
+      if (!(name in locked.attributes) || current !== value) {
+        locked.attributes[name] = current;
+      }
+      el.setAttribute(name, value);
+    });
+  }
+  state.locked = locked;
+  if (!relock) log(`Locked element (${mode})`);
+}
+
+/**
+ * Undo lockElement: remove the added classes, restore the attributes
+ */
+function unlockElement(el: HTMLElement, log: DebugLogger) {
+  const state = elementStates.get(el);
+  const locked = state?.locked;
+  if (!state || !locked) return;
+
+  locked.classes.forEach((name) => el.classList.remove(name));
+  Object.entries(locked.attributes).forEach(([name, value]) =>
+    restoreAttribute(el, name, value),
+  );
+  state.locked = undefined;
+  log("Unlocked element");
+}
+
+/**
+ * Remove/restore the element, hide/show it, disable/enable it, or toggle
+ * classes/attributes, depending on the mode
+ */
+function applyMode(
+  el: HTMLElement,
+  allowed: boolean,
+  modifiers: Modifiers,
+  arg: string | undefined,
+  disable: DisableOptions,
+  log: DebugLogger,
+) {
+  const mode = displayMode(modifiers, arg);
+  if (mode === "class" || mode === "attr") {
+    if (allowed) unlockElement(el, log);
+    else lockElement(el, mode, modifiers, log);
+    return;
+  }
+
+  const state = stateOf(el);
+  if (allowed) {
+    // Restore element if it was removed
+    if (state.comment) {
+      const comment = state.comment;
+      if (state.parent && !el.parentNode) {
+        state.parent.insertBefore(el, comment);
+        comment.remove();
+      }
+      state.comment = undefined;
+    }
+    if (mode === "show") {
+      el.style.display = state.originalDisplay || "";
+      log(`Restoring display to: ${state.originalDisplay}`);
+    } else if (mode === "disable") {
+      enableElement(el, disable, log);
+    }
+  } else if (mode === "show") {
+    // Hide but keep in DOM
+    el.style.display = "none";
+    log("Hiding with display:none");
+  } else if (mode === "disable") {
+    disableElement(el, disable, log);
+  } else if (el.parentNode && !state.comment) {
+    // Remove from DOM
+    const comment = document.createComment("v-permission");
+    state.parent = el.parentNode;
+    state.comment = comment;
+    placeholderOwners.set(comment, el);
+    el.replaceWith(comment);
+    log("Removed element from DOM");
+  }
+}
+
+// v-permission-else is always removed (or hidden with `.show`), never
+// disabled, so it needs no disable options
+const NO_DISABLE: DisableOptions = {};
+
+/**
+ * Apply a permission result to the elements and the opposite one to their
+ * v-permission-else siblings
+ */
+function applyResult(
+  targets: HTMLElement[],
+  allowed: boolean,
+  modifiers: Modifiers,
+  arg: string | undefined,
+  disable: DisableOptions,
+  log: DebugLogger,
+) {
+  targets.forEach((el) => {
+    applyMode(el, allowed, modifiers, arg, disable, log);
+    const state = stateOf(el);
+    state.allowed = allowed;
+
+    const fallback = state.fallback;
+    if (fallback) {
+      const elseModifiers = elementStates.get(fallback)?.modifiers ?? {};
+      applyMode(
+        fallback,
+        !allowed,
+        elseModifiers,
+        undefined,
+        NO_DISABLE,
+        log,
+      );
+    }
+  });
+}
+
+/**
+ * Evaluate permission and update element visibility/existence. Evaluations
+ * can finish out of order (a slow async checker), so only the latest one
+ * of the binding is applied.
  */
 async function evaluateAndUpdate(
-  el: PermissionElement,
+  instance: DirectiveInstance,
+  host: HostState,
   value: any,
-  modifiers: Record<string, boolean> | Partial<Record<string, boolean>>,
-  arg?: string,
+  modifiers: Modifiers,
+  arg: string | undefined,
+  disable: DisableOptions,
+  log: DebugLogger,
 ): Promise<void> {
+  const run = ++host.run;
   let allowed = false;
   try {
-    allowed = await hasPermission(value);
-    logDebug(
-      `Evaluated permission ${JSON.stringify(value)}: ${
+    allowed = await instance.hasPermission(...checkArgs(value));
+    log(
+      `Evaluated permission ${stableStringify(value)}: ${
         allowed ? "ALLOWED" : "DENIED"
       }`,
     );
@@ -40,197 +445,399 @@ async function evaluateAndUpdate(
     console.error("[v-permission] Permission evaluation failed:", e);
     allowed = false;
   }
+  if (run !== host.run) return;
 
-  if (allowed) {
-    // Restore element if it was removed
-    if (el._vPermissionComment) {
-      const comment = el._vPermissionComment;
-      const parent = el._vPermissionParent;
-      if (parent && !el.parentNode) {
-        parent.insertBefore(el, comment);
-        comment.remove();
-      }
-      el._vPermissionComment = undefined;
-    }
-    // Restore display
-    if (arg === "show" || modifiers.show) {
-      el.style.display = el._vPermissionOriginalDisplay || "";
-      logDebug(`Restoring display to: ${el._vPermissionOriginalDisplay}`);
-    }
-  } else {
-    if (arg === "show" || modifiers.show) {
-      // Hide but keep in DOM
-      el.style.display = "none";
-      logDebug("Hiding with display:none");
-    } else {
-      // Remove from DOM
-      if (el.parentNode && !el._vPermissionComment) {
-        const comment = document.createComment("v-permission");
-        el._vPermissionParent = el.parentNode;
-        el._vPermissionNextSibling = el.nextSibling;
-        el._vPermissionComment = comment;
-        el.replaceWith(comment);
-        logDebug("Removed element from DOM");
-      }
-    }
+  if (!allowed && instance.isDevMode()) {
+    log(
+      "Denied because:",
+      instance.explainPermission(...checkArgs(value)),
+    );
   }
+
+  host.allowed = allowed;
+  applyResult(host.targets, allowed, modifiers, arg, disable, log);
 }
 
-export const vPermission = {
-  mounted(el: PermissionElement, binding: DirectiveBinding) {
-    logDebug("mounted called with value:", binding.value);
-    // binding.value might be a Ref, unwrap it
-    let value = binding.value;
-    let isValueRef = false;
-    if (isRef(value)) {
-      isValueRef = true;
-      value = value.value;
-    }
-    const { modifiers, arg } = binding;
+const isTeleport = (vnode: VNode) =>
+  !!(vnode.type as { __isTeleport?: boolean })?.__isTeleport;
 
-    // Store the Ref or raw value for later use in updated hook
-    (el as any)._vPermissionValueRef = isValueRef ? binding.value : null;
+/**
+ * Elements a vnode renders at its top level: itself for an element, the
+ * children of a fragment or <Teleport>, the root(s) of a component
+ */
+const collectElements = (vnode: VNode): HTMLElement[] => {
+  if (vnode.component) return collectElements(vnode.component.subTree);
+  if (typeof vnode.type === "string") {
+    return vnode.el ? [vnode.el as HTMLElement] : [];
+  }
+  if (!Array.isArray(vnode.children)) return [];
+  return vnode.children.flatMap((child) =>
+    isVNode(child) ? collectElements(child) : [],
+  );
+};
 
-    // Capture original display - try computed style first for CSS-set values
-    let originalDisplay: string;
-    try {
-      const computed = window.getComputedStyle(el);
-      originalDisplay = computed.display || el.style.display || "";
-    } catch {
-      originalDisplay = el.style.display || "";
-    }
-    el._vPermissionOriginalDisplay = originalDisplay;
+/**
+ * Teleported elements in an element's own template: they live elsewhere
+ * in the DOM, so hiding the element alone would leave them visible. Child
+ * components aren't entered, so a v-permission wrapping a whole page
+ * doesn't walk the page on every update.
+ */
+const collectTeleported = (vnode: VNode): HTMLElement[] => {
+  if (!Array.isArray(vnode.children)) return [];
+  return vnode.children.flatMap((child) => {
+    if (!isVNode(child) || child.component) return [];
+    return isTeleport(child)
+      ? collectElements(child)
+      : collectTeleported(child);
+  });
+};
 
-    if (modifiers.once) {
-      el._vPermissionSkipUpdates = true;
-    }
+/**
+ * A v-permission bound to a permission instance. `disable` configures the
+ * class and title of elements in `disable` mode.
+ */
+export const createPermissionDirective = (
+  instance: DirectiveInstance = defaultPermissions,
+  options: { disable?: DisableOptions } = {},
+) => {
+  const disable = options.disable ?? {};
+  // Logs while this directive's instance is in development mode
+  const log = createDebugLogger(instance.isDevMode);
+
+  const unwrap = (host: HostState) => {
+    const value = host.valueRef ? host.valueRef.value : host.binding.value;
+    return isRef(value) ? value.value : value;
+  };
+
+  const mount = (
+    node: Node,
+    targets: HTMLElement[],
+    binding: DirectiveBinding,
+  ) => {
+    log("mounted called with value:", binding.value);
+    const { modifiers, arg } = binding;
+    const host: HostState = {
+      binding,
+      // Keep the Ref itself so later checks read its current value
+      valueRef: isRef(binding.value) ? binding.value : null,
+      lastValue: "",
+      skipUpdates: !!modifiers.once,
+      targets,
+      run: 0,
+      allowed: false,
+      unsubscribe: () => {},
+    };
+    hostStates.set(node, host);
+    const value = unwrap(host);
+    host.lastValue = stableStringify(value);
+
+    targets.forEach((el) => {
+      stateOf(el).originalDisplay = captureDisplay(el);
+    });
 
     // Try synchronous check first (permissions are already loaded from plugin)
-    const syncResult = checkPermissionSync(value);
-    logDebug("syncResult:", syncResult, "value:", value);
+    const syncResult = instance.checkPermissionSync(...checkArgs(value));
+    log("syncResult:", syncResult, "value:", value);
+    host.allowed = syncResult;
 
     // Apply synchronous result immediately
-    if (!syncResult && !(arg === "show" || modifiers.show)) {
-      // Permission denied and not using show modifier, remove from DOM immediately
-      if (el.parentNode) {
-        const comment = document.createComment("v-permission");
-        el._vPermissionParent = el.parentNode;
-        el._vPermissionNextSibling = el.nextSibling;
-        el._vPermissionComment = comment;
-        // Replace element with comment atomically
-        el.replaceWith(comment);
-        logDebug("Removed element from DOM (sync)");
-      }
-    } else if (!syncResult && (arg === "show" || modifiers.show)) {
-      // Permission denied and using show modifier, hide with CSS
-      el.style.display = "none";
-      logDebug("Hiding with display:none (sync)");
+    targets.forEach((el) => {
+      stateOf(el).allowed = syncResult;
+    });
+    if (!syncResult) {
+      applyResult(targets, false, modifiers, arg, disable, log);
     }
 
-    logDebug(
-      `Mounted v-permission => ${JSON.stringify(value)} (sync: ${
+    log(
+      `Mounted v-permission => ${stableStringify(value)} (sync: ${
         syncResult ? "ALLOWED" : "DENIED"
       })`,
     );
-  },
 
-  updated(el: PermissionElement, binding: DirectiveBinding) {
-    // Unwrap Ref values - IMPORTANT: Check if binding.value IS a Ref object
-    let value = binding.value;
-    let oldValue = binding.oldValue;
-
-    // If stored value was a Ref, use it to get current value
-    const storedRef = (el as any)._vPermissionValueRef;
-    if (storedRef && isRef(storedRef)) {
-      value = storedRef.value;
-      oldValue = binding.oldValue; // oldValue might also be a Ref
-    } else if (isRef(value)) {
-      value = value.value;
-    }
+    // Async evaluation settles rules the sync check can't answer
+    // (e.g. async policies)
+    evaluateAndUpdate(
+      instance,
+      host,
+      value,
+      modifiers,
+      arg,
+      disable,
+      log,
+    ).catch((e) => {
+      console.error("[v-permission] Mount evaluation failed:", e);
+    });
 
-    if (isRef(oldValue)) {
-      oldValue = oldValue.value;
+    // Permissions can change without the host component re-rendering
+    // (login, setPermissions, a scope switch, a timed grant expiring), and
+    // async checker results can change after mount (e.g. a feature flag
+    // refreshed once its cache entry expired), so re-evaluate when either
+    // happens
+    const reevaluate = () => {
+      if (hostStates.get(node) !== host || host.skipUpdates) return;
+      const { modifiers, arg } = host.binding;
+      evaluateAndUpdate(
+        instance,
+        host,
+        unwrap(host),
+        modifiers,
+        arg,
+        disable,
+        log,
+      ).catch((e) => {
+        console.error("[v-permission] Re-evaluation failed:", e);
+      });
+    };
+    const unsubscribeAsync = onAsyncPermissionResolved(reevaluate);
+    let unsubscribeStore = () => {};
+    if (!modifiers.once) {
+      unsubscribeStore = modifiers.lazy
+        ? instance.watchPermissions(reevaluate)
+        : instance.onPermissionsChanged(reevaluate);
     }
+    host.unsubscribe = () => {
+      unsubscribeAsync();
+      unsubscribeStore();
+    };
+  };
+
+  const update = (
+    node: Node,
+    targets: HTMLElement[],
+    binding: DirectiveBinding,
+  ) => {
+    const host = hostStates.get(node);
+    if (!host) return mount(node, targets, binding);
+
+    host.binding = binding;
+    host.valueRef = isRef(binding.value) ? binding.value : null;
     const { modifiers, arg } = binding;
 
-    if (el._vPermissionSkipUpdates) return;
+    // Elements rendered since the last update start from their own state
+    targets.forEach((el) => {
+      if (elementStates.has(el)) return;
+      stateOf(el).originalDisplay = captureDisplay(el);
+    });
+    host.targets = targets;
+
+    if (host.skipUpdates) return;
 
     // Check if binding value changed
-    const valueChanged = JSON.stringify(value) !== JSON.stringify(oldValue);
+    const value = unwrap(host);
+    const serialized = stableStringify(value);
+    const valueChanged = serialized !== host.lastValue;
+    host.lastValue = serialized;
 
     // Re-evaluate if binding changed OR if this is a component re-render (not lazy)
-    if (valueChanged || (!valueChanged && !modifiers.lazy)) {
-      // Capture new original display if element is in DOM
-      if (el.parentNode && valueChanged) {
-        try {
-          const computed = window.getComputedStyle(el);
-          const newDisplay = computed.display || el.style.display || "";
-          el._vPermissionOriginalDisplay = newDisplay;
-        } catch {
-          el._vPermissionOriginalDisplay = el.style.display || "";
-        }
-      }
-
-      // Use synchronous check first for immediate updates (matches mount behavior)
-      const syncResult = checkPermissionSync(value);
-
-      // Apply synchronous result immediately
-      if (!syncResult && !(arg === "show" || modifiers.show)) {
-        // Permission denied and not using show modifier, remove from DOM immediately
-        if (el.parentNode && !el._vPermissionComment) {
-          const comment = document.createComment("v-permission");
-          el._vPermissionParent = el.parentNode;
-          el._vPermissionNextSibling = el.nextSibling;
-          el._vPermissionComment = comment;
-          el.replaceWith(comment);
-          logDebug("Removed element from DOM (sync update)");
-        }
-      } else if (!syncResult && (arg === "show" || modifiers.show)) {
-        // Permission denied and using show modifier, hide with CSS
-        el.style.display = "none";
-        logDebug("Hiding with display:none (sync update)");
-      } else if (syncResult) {
-        // Permission granted - restore element/display
-        if (el._vPermissionComment) {
-          const comment = el._vPermissionComment;
-          const parent = el._vPermissionParent;
-          if (parent && !el.parentNode) {
-            comment.replaceWith(el);
-          }
-          el._vPermissionComment = undefined;
-        }
-        // Restore display
-        if (arg === "show" || modifiers.show) {
-          el.style.display = el._vPermissionOriginalDisplay || "";
-          logDebug(`Restoring display to: ${el._vPermissionOriginalDisplay}`);
-        }
-      }
+    if (!valueChanged && modifiers.lazy) return;
 
-      logDebug(
-        `Updated v-permission => ${JSON.stringify(value)} : ${
-          valueChanged ? "binding changed" : "component re-render"
-        } (sync: ${syncResult ? "ALLOWED" : "DENIED"})`,
-      );
-
-      // Trigger async evaluation in background for cache and future reference
-      evaluateAndUpdate(el, value, modifiers, arg).catch((e) => {
-        console.error("[v-permission] Update evaluation failed:", e);
+    // Capture new original display if element is in DOM
+    if (valueChanged) {
+      targets.forEach((el) => {
+        if (el.parentNode) stateOf(el).originalDisplay = captureDisplay(el);
       });
     }
-  },
 
-  unmounted(el: PermissionElement) {
-    // Restore element if it was removed
-    if (el._vPermissionComment) {
-      const comment = el._vPermissionComment;
-      comment.remove();
-    }
-    delete el._vPermissionOriginalDisplay;
-    delete el._vPermissionSkipUpdates;
-    delete el._vPermissionParent;
-    delete el._vPermissionNextSibling;
-    delete el._vPermissionComment;
+    // Use synchronous check first for immediate updates (matches mount
+    // behavior). The sync check denies policies and async checker results
+    // it doesn't know yet, so on a re-render such rules keep the last result
+    // until evaluateAndUpdate settles them
+    const syncResult =
+      !valueChanged && isAsyncPermission(checkArgs(value)[0])
+        ? host.allowed
+        : instance.checkPermissionSync(...checkArgs(value));
+    host.allowed = syncResult;
+
+    // Apply synchronous result immediately
+    applyResult(targets, syncResult, modifiers, arg, disable, log);
+
+    log(
+      `Updated v-permission => ${serialized} : ${
+        valueChanged ? "binding changed" : "component re-render"
+      } (sync: ${syncResult ? "ALLOWED" : "DENIED"})`,
+    );
+
+    // Trigger async evaluation in background for cache and future reference
+    evaluateAndUpdate(
+      instance,
+      host,
+      value,
+      modifiers,
+      arg,
+      disable,
+      log,
+    ).catch((e) => {
+      console.error("[v-permission] Update evaluation failed:", e);
+    });
+  };
+
+  const unmount = (node: Node) => {
+    const host = hostStates.get(node);
+    if (!host) return;
+    host.unsubscribe();
+    // Drop pending evaluations
+    host.run++;
+    host.targets.forEach((el) => {
+      enableElement(el, disable, log);
+      unlockElement(el, log);
+      const state = elementStates.get(el);
+      const fallback = state?.fallback;
+      if (fallback) elementStates.get(fallback)!.fallbackOf = undefined;
+      // Drop the placeholder of a removed element
+      state?.comment?.remove();
+      elementStates.delete(el);
+    });
+    hostStates.delete(node);
+  };
+
+  const directive: ObjectDirective<HTMLElement> = {
+    mounted(el, binding, vnode) {
+      mount(el, [el, ...collectTeleported(vnode)], binding);
+    },
+    updated(el, binding, vnode) {
+      update(el, [el, ...collectTeleported(vnode)], binding);
+    },
+    unmounted(el) {
+      unmount(el);
+    },
+  };
+  rootHandlers.set(directive, { mount, update, unmount });
+  return directive;
+};
+
+type HostHandler = (
+  node: Node,
+  targets: HTMLElement[],
+  binding: DirectiveBinding,
+) => void;
+
+interface RootHandlers {
+  mount: HostHandler;
+  update: HostHandler;
+  unmount: (node: Node) => void;
+}
+
+// Handlers of every v-permission directive, for permissionRootMixin
+const rootHandlers = new WeakMap<object, RootHandlers>();
+
+export const vPermission = createPermissionDirective();
+
+// Root anchor each fragment/<Teleport> root component's binding is kept on
+const componentHosts = new WeakMap<ComponentInternalInstance, Node>();
+
+/**
+ * Apply a component's v-permission to the elements of a root that isn't a
+ * single element (a fragment, <Teleport>, ...): Vue only runs directive
+ * hooks for element roots. The root can switch between an element and a
+ * fragment on re-render, so the previous host is dropped when it changes.
+ */
+const syncComponentRoot = (
+  component: ComponentInternalInstance,
+  unmounting = false,
+) => {
+  const binding = component.vnode.dirs?.find((dir) =>
+    rootHandlers.has(dir.dir),
+  );
+  if (!binding) return;
+  const handlers = rootHandlers.get(binding.dir)!;
+
+  const root = component.subTree?.el as Node | null;
+  const isElementRoot = !root || root.nodeType === Node.ELEMENT_NODE;
+  const previous = componentHosts.get(component);
+  if (previous && (unmounting || isElementRoot || previous !== root)) {
+    handlers.unmount(previous);
+    componentHosts.delete(component);
+  }
+  if (unmounting || isElementRoot) return;
+
+  componentHosts.set(component, root);
+  handlers.update(root, collectElements(component.subTree), binding);
+};
+
+/**
+ * permissionRootMixin
+ * -------------------
+ * Applies v-permission on components with a fragment (multi-root) or
+ * <Teleport> root to every element they render. Installed by the plugin.
+ */
+export const permissionRootMixin = {
+  mounted(this: ComponentPublicInstance) {
+    syncComponentRoot(this.$);
   },
+  updated(this: ComponentPublicInstance) {
+    syncComponentRoot(this.$);
+  },
+  unmounted(this: ComponentPublicInstance) {
+    syncComponentRoot(this.$, true);
+  },
+};
+
+/**
+ * The v-permission element right before `el`, skipping whitespace; its
+ * removal placeholder stands in for it while it's removed
+ */
+const findPermissionSibling = (el: Element) => {
+  let node = el.previousSibling;
+  while (node?.nodeType === Node.TEXT_NODE && !node.textContent?.trim()) {
+    node = node.previousSibling;
+  }
+  if (!node) return undefined;
+
+  const owner = placeholderOwners.get(node) ?? (node as HTMLElement);
+  return elementStates.get(owner)?.kind === "permission" ? owner : undefined;
 };
 
+/**
+ * v-permission-else directive
+ * ----------------------------
+ * Fallback content shown while the v-permission element right before it
+ * is denied, removed (or hidden with `.show`) while it's allowed. Logs
+ * while `instance` is in development mode.
+ */
+export const createPermissionElseDirective = (
+  instance: Pick<DirectiveInstance, "isDevMode"> = defaultPermissions,
+): ObjectDirective<HTMLElement> => {
+  const log = createDebugLogger(instance.isDevMode);
+
+  return {
+    mounted(el, binding) {
+      const owner = findPermissionSibling(el);
+      if (!owner) {
+        console.warn(
+          "[v-permission] v-permission-else must directly follow an element " +
+            "with v-permission",
+        );
+        return;
+      }
+
+      const state = stateOf(el, "else");
+      state.modifiers = binding.modifiers;
+      state.originalDisplay = el.style.display;
+      state.fallbackOf = owner;
+      const ownerState = stateOf(owner);
+      ownerState.fallback = el;
+      applyMode(
+        el,
+        ownerState.allowed === false,
+        binding.modifiers,
+        undefined,
+        NO_DISABLE,
+        log,
+      );
+    },
+
+    unmounted(el) {
+      const state = elementStates.get(el);
+      if (!state) return;
+      const ownerState =
+        state.fallbackOf && elementStates.get(state.fallbackOf);
+      if (ownerState?.fallback === el) ownerState.fallback = undefined;
+      state.comment?.remove();
+      elementStates.delete(el);
+    },
+  };
+};
+
+export const vPermissionElse = createPermissionElseDirective();
+
 export {};
@@ -3,9 +3,17 @@ import type {
   RouteLocationNormalized,
   NavigationGuardNext,
 } from "vue-router";
-import { hasPermission } from "@/core/evaluator";
-import { getCurrentPermissions } from "@/core/config";
-import type { GuardOptions, PermissionRoute } from "@/types";
+import { createDebugLogger } from "@/utils/debug";
+import { resolveRouteScope } from "@/utils/helpers";
+import {
+  defaultPermissions,
+  type PermissionInstance,
+} from "@/core/instance";
+import type {
+  GuardOptions,
+  PermissionContext,
+  PermissionRoute,
+} from "@/types";
 
 const MAX_ROUTE_DEPTH = 50;
 
@@ -23,6 +31,7 @@ const MAX_ROUTE_DEPTH = 50;
  */
 export const createPermissionGuard = (options: GuardOptions = {}) => {
   const {
+    instance = defaultPermissions,
     authRoutes = [],
     protectedRoutes = [] as PermissionRoute[],
     getAuthState,
@@ -31,6 +40,7 @@ export const createPermissionGuard = (options: GuardOptions = {}) => {
     onDenied,
     onAllowed,
   } = options;
+  const logDebug = createDebugLogger(instance.isDevMode);
 
   return async (
     to: RouteLocationNormalized,
@@ -40,7 +50,12 @@ export const createPermissionGuard = (options: GuardOptions = {}) => {
     try {
       const authState = getAuthState?.() ?? { isAuthenticated: false };
       const isAuthenticated = authState.isAuthenticated;
-      const userPermissions = authState.permissions ?? getCurrentPermissions();
+      // meta.permissionScope picks the scoped permission set to check against
+      const scope = resolveRouteScope(to);
+      const userPermissions =
+        authState.permissions ?? instance.getCurrentPermissions(scope);
+      // Handed to policies of ability rules in route meta
+      const context = { user: authState.user, route: to, scope };
 
       const isAuthRoute = authRoutes.some((r) => r.path === to.path);
       const requiresAuth = to.meta?.requiresAuth ?? false;
@@ -57,16 +72,29 @@ export const createPermissionGuard = (options: GuardOptions = {}) => {
       }
 
       if (checkPermission && to.meta?.permissions) {
-        const allowed = await hasPermission(
+        const allowed = await instance.hasPermission(
           to.meta.permissions,
-          userPermissions
+          userPermissions,
+          context
         );
         if (!allowed) {
+          if (instance.isDevMode()) {
+            logDebug(
+              `Route "${to.path}" denied because:`,
+              instance.explainPermission(
+                to.meta.permissions,
+                userPermissions,
+                context
+              )
+            );
+          }
           onDenied?.(to, from);
 
           const fallback = await findAccessibleRoute(
+            instance,
             protectedRoutes,
-            userPermissions
+            userPermissions,
+            { user: authState.user, scope }
           );
           return next(fallback || loginPath);
         }
@@ -86,8 +114,10 @@ export const createPermissionGuard = (options: GuardOptions = {}) => {
  * Includes depth protection against circular/deeply nested routes.
  */
 async function findAccessibleRoute(
+  instance: PermissionInstance,
   routes: PermissionRoute[],
   userPermissions: string[],
+  context: PermissionContext,
   basePath = "",
   depth = 0
 ): Promise<string | null> {
@@ -100,14 +130,18 @@ async function findAccessibleRoute(
     const fullPath = basePath + route.path;
     const requiredPermissions = route.meta?.permissions ?? "*";
 
-    if (await hasPermission(requiredPermissions, userPermissions)) {
+    if (
+      await instance.hasPermission(requiredPermissions, userPermissions, context)
+    ) {
       return fullPath;
     }
 
     if (route.children?.length) {
       const child = await findAccessibleRoute(
+        instance,
         route.children,
         userPermissions,
+        context,
         fullPath,
         depth + 1
       );
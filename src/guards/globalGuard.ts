@@ -1,7 +1,15 @@
-import { hasPermission } from "@/core/evaluator";
-import { getCurrentPermissions } from "@/core/config";
+import { createDebugLogger } from "@/utils/debug";
+import { resolveRouteScope } from "@/utils/helpers";
+import {
+  defaultPermissions,
+  type PermissionInstance,
+} from "@/core/instance";
 import type { RouteLocationNormalized, NavigationGuardNext } from "vue-router";
-import type { GuardOptions, PermissionRoute } from "@/types";
+import type {
+  GuardOptions,
+  PermissionContext,
+  PermissionRoute,
+} from "@/types";
 
 const MAX_ROUTE_DEPTH = 50;
 
@@ -24,6 +32,7 @@ export const globalGuard = async (
   options: GuardOptions = {}
 ) => {
   const {
+    instance = defaultPermissions,
     authRoutes = [],
     protectedRoutes = [] as PermissionRoute[],
     getAuthState,
@@ -32,11 +41,17 @@ export const globalGuard = async (
     onDenied,
     onAllowed,
   } = options;
+  const logDebug = createDebugLogger(instance.isDevMode);
 
   try {
     const authState = getAuthState?.() ?? { isAuthenticated: false };
     const isAuthenticated = authState.isAuthenticated;
-    const userPermissions = authState.permissions ?? getCurrentPermissions();
+    // meta.permissionScope picks the scoped permission set to check against
+    const scope = resolveRouteScope(to);
+    const userPermissions =
+      authState.permissions ?? instance.getCurrentPermissions(scope);
+    // Handed to policies of ability rules in route meta
+    const context = { user: authState.user, route: to, scope };
 
     const isAuthRoute = authRoutes.some((r) => r.path === to.path);
     const requiresAuth = to.meta?.requiresAuth ?? false;
@@ -53,12 +68,28 @@ export const globalGuard = async (
     }
 
     if (checkPermission && to.meta?.permissions) {
-      const allowed = await hasPermission(to.meta.permissions, userPermissions);
+      const allowed = await instance.hasPermission(
+        to.meta.permissions,
+        userPermissions,
+        context
+      );
       if (!allowed) {
+        if (instance.isDevMode()) {
+          logDebug(
+            `Route "${to.path}" denied because:`,
+            instance.explainPermission(
+              to.meta.permissions,
+              userPermissions,
+              context
+            )
+          );
+        }
         onDenied?.(to, from);
         const fallback = await findAccessibleRoute(
+          instance,
           protectedRoutes,
-          userPermissions
+          userPermissions,
+          { user: authState.user, scope }
         );
         return next(fallback || loginPath);
       }
@@ -77,8 +108,10 @@ export const globalGuard = async (
  * Includes depth protection against circular/deeply nested routes.
  */
 async function findAccessibleRoute(
+  instance: PermissionInstance,
   routes: PermissionRoute[],
   userPermissions: string[],
+  context: PermissionContext,
   basePath = "",
   depth = 0
 ): Promise<string | null> {
@@ -91,14 +124,18 @@ async function findAccessibleRoute(
     const fullPath = basePath + route.path;
     const requiredPermissions = route.meta?.permissions ?? "*";
 
-    if (await hasPermission(requiredPermissions, userPermissions)) {
+    if (
+      await instance.hasPermission(requiredPermissions, userPermissions, context)
+    ) {
       return fullPath;
     }
 
     if (route.children?.length) {
       const child = await findAccessibleRoute(
+        instance,
         route.children,
         userPermissions,
+        context,
         fullPath,
         depth + 1
       );
@@ -2,9 +2,63 @@
 export {
   configurePermission,
   getCurrentPermissions,
+  getPermissionGrants,
+  onPermissionsChanged,
+  watchPermissions,
   isDevMode,
+  setPermissionUser,
+  getPermissionUser,
+  setPermissionScope,
+  getPermissionScope,
+  getPermissionScopes,
 } from "@/core/config";
-export { hasPermission } from "@/core/evaluator";
+export { hasPermission, explainPermission } from "@/core/evaluator";
+export { getPermissionSet } from "@/core/permissionSet";
+export {
+  registerPermissionMode,
+  unregisterPermissionMode,
+  getModeNames,
+} from "@/core/engine";
+export {
+  parsePermissionExpression,
+  precompilePermission,
+  isPermissionExpression,
+} from "@/core/expression";
+export { matchWildcard } from "@/core/wildcard";
+export {
+  configureRegex,
+  analyzeRegexPattern,
+  compileRegex,
+} from "@/core/regex";
+export {
+  parseLevel,
+  parseLevelRequirement,
+  getGrantedLevel,
+} from "@/core/levels";
+export {
+  defineRoles,
+  clearRoles,
+  getRolePermissions,
+  expandRoles,
+} from "@/core/roles";
+export { getDeniedPermissions, splitGrants } from "@/core/deny";
+export {
+  isGrantActive,
+  resolveGrants,
+  onGrantsChanged,
+} from "@/core/grants";
+export {
+  definePolicy,
+  removePolicy,
+  clearPolicies,
+  getPolicy,
+} from "@/core/policies";
+export {
+  registerAsyncChecker,
+  unregisterAsyncChecker,
+  clearAsyncCheckers,
+  onAsyncPermissionResolved,
+} from "@/core/asyncCheckers";
 
 // Caching
 export {
@@ -12,6 +66,12 @@ export {
   setCachedPermission,
   clearPermissionCache,
   invalidateCache,
+  configureCache,
+  getCacheOptions,
+  getCacheStats,
+  resetCacheStats,
+  invalidatePermissionResults,
+  stopCacheSweep,
 } from "@/core/cache";
 
 // Utilities
@@ -20,8 +80,26 @@ export * from "./utils/storage";
 export * from "./utils/debug";
 
 // Plugin and directives
-export { default as PermissionPlugin } from "./plugin";
-export { vPermission } from "./directives/v-permission";
+export { default as PermissionPlugin, createPermissions } from "./plugin";
+export {
+  vPermission,
+  vPermissionElse,
+  createPermissionDirective,
+  createPermissionElseDirective,
+  permissionRootMixin,
+} from "./directives/v-permission";
+
+// Components
+export { Can, Cannot } from "./components/Can";
+export type { PermissionSlotProps } from "./components/Can";
+
+// Isolated instances
+export {
+  createPermissionInstance,
+  defaultPermissions,
+  PERMISSION_INSTANCE_KEY,
+} from "@/core/instance";
+export type { PermissionInstance } from "@/core/instance";
 
 // Guards
 export { globalGuard } from "./guards/globalGuard";
@@ -33,9 +111,28 @@ export { usePermission } from "./composables/usePermission";
 // Type exports (explicit)
 export type {
   PermissionMode,
+  PermissionModeRegistry,
+  PermissionModeHandler,
+  PermissionModeContext,
   PermissionValue,
   PermissionObject,
+  AbilityRule,
+  PermissionContext,
+  PolicyHandler,
+  AsyncPermissionChecker,
+  PermissionTrace,
   PermissionsArray,
+  TimedGrant,
+  PermissionGrant,
+  ScopedPermissions,
+  PermissionScopeResolver,
+  RoleDefinition,
+  RoleMap,
+  RegexOptions,
+  CacheOptions,
+  CacheStats,
+  DisableOptions,
+  ScopedRule,
   GlobalConfig,
   PluginOptions,
   PermissionRoute,
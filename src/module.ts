@@ -1,16 +1,29 @@
 import {
+  addComponent,
   addImports,
   addPlugin,
   createResolver,
   defineNuxtModule,
 } from "@nuxt/kit";
 import { defu } from "defu";
+import type {
+  CacheOptions,
+  DisableOptions,
+  RegexOptions,
+  RoleMap,
+} from "@/types";
 
 export interface ModuleOptions {
-  permissions?: string[];
+  permissions?: string[] | Record<string, string[]>;
+  /** Active scope when `permissions` is a scoped map */
+  scope?: string;
   developmentMode?: boolean;
   fetchPermissions?: string | (() => Promise<string[]>);
   persist?: boolean;
+  roles?: RoleMap;
+  regex?: RegexOptions;
+  cache?: CacheOptions;
+  disable?: DisableOptions;
 }
 
 export default defineNuxtModule<ModuleOptions>({
@@ -30,8 +43,15 @@ export default defineNuxtModule<ModuleOptions>({
 
   setup(options, nuxt) {
     // Validate options early
-    if (options.permissions && !Array.isArray(options.permissions)) {
-      throw new TypeError("[vue-nuxt-permission] permissions must be an array");
+    if (
+      options.permissions &&
+      (typeof options.permissions !== "object" ||
+        (!Array.isArray(options.permissions) &&
+          !Object.values(options.permissions).every(Array.isArray)))
+    ) {
+      throw new TypeError(
+        "[vue-nuxt-permission] permissions must be an array or a map of scope to array",
+      );
     }
 
     if (
@@ -55,13 +75,23 @@ export default defineNuxtModule<ModuleOptions>({
       from: "vue-nuxt-permission",
     });
 
+    // Auto-import the <Can> / <Cannot> components
+    for (const name of ["Can", "Cannot"]) {
+      addComponent({ name, export: name, filePath: "vue-nuxt-permission" });
+    }
+
     // Expose options to runtime via runtimeConfig (merge, don't overwrite)
     nuxt.options.runtimeConfig.public.permission = defu(
       nuxt.options.runtimeConfig.public.permission as Record<string, unknown>,
       {
         permissions: options.permissions,
+        scope: options.scope,
         developmentMode: options.developmentMode,
         persist: options.persist,
+        roles: options.roles,
+        regex: options.regex,
+        cache: options.cache,
+        disable: options.disable,
         // Functions can't be serialized to runtimeConfig — only pass URL strings
         fetchPermissions:
           typeof options.fetchPermissions === "string"
@@ -1,10 +1,23 @@
 import type { App } from "vue";
-import type { PluginOptions } from "@/types";
-import { vPermission } from "@/directives/v-permission";
+import type {
+  PermissionGrant,
+  PluginOptions,
+  ScopedPermissions,
+} from "@/types";
 import {
-  configurePermission,
-  clearPermissionCache,
-  getReactivePermissions,
+  createPermissionDirective,
+  createPermissionElseDirective,
+  permissionRootMixin,
+} from "@/directives/v-permission";
+import { Can, Cannot } from "@/components/Can";
+import {
+  configureRegex,
+  createPermissionInstance,
+  defaultPermissions,
+  defineRoles,
+  isScopedPermissions,
+  PERMISSION_INSTANCE_KEY,
+  type PermissionInstance,
 } from "@/core";
 import {
   getPermissionsFromStorage,
@@ -12,36 +25,126 @@ import {
 } from "@/utils/storage";
 import { normalizePermissions } from "@/utils/helpers";
 
-export default {
-  async install(app: App, options?: PluginOptions) {
-    let permissions: string[] = [];
-
-    if (options?.fetchPermissions) {
-      try {
-        permissions = await options.fetchPermissions();
-      } catch (e) {
-        console.error("[v-permission] Failed to fetch permissions:", e);
-        permissions = getPermissionsFromStorage() ?? [];
-      }
-    } else if (options?.permissions) {
-      permissions = normalizePermissions(options.permissions);
-    } else {
-      permissions = getPermissionsFromStorage() ?? [];
+/**
+ * Install a permission instance into an app: configure it from `options`,
+ * provide it to usePermission and register a v-permission bound to it.
+ */
+const installPermissions = async (
+  app: App,
+  instance: PermissionInstance,
+  options?: PluginOptions
+) => {
+  let permissions: PermissionGrant[] | ScopedPermissions = [];
+  const storageKey = options?.storageKey ?? instance.storageKey;
+
+  // Provide reactive permissions to components and directives. Done before
+  // fetchPermissions is awaited, so components rendering in the meantime
+  // already use this instance and resolve <Can>/<Cannot>
+  const reactivePermissions = instance.getReactivePermissions();
+  app.provide("__v_permission_reactive__", reactivePermissions);
+  app.provide(PERMISSION_INSTANCE_KEY, instance);
+
+  app.directive(
+    "permission",
+    createPermissionDirective(instance, { disable: options?.disable }),
+  );
+  app.directive("permission-else", createPermissionElseDirective(instance));
+  // v-permission on components with a fragment or <Teleport> root
+  app.mixin(permissionRootMixin);
+  app.component("Can", Can);
+  app.component("Cannot", Cannot);
+
+  // Vue >= 3.5: release the instance with the app. The default instance
+  // only stops its sweep timer; one from createPermissions also stops its
+  // watchers and grant listener, so per-request (SSR) instances don't leak
+  if (typeof app.onUnmount === "function") {
+    app.onUnmount(instance.dispose);
+  }
+
+  if (options?.roles) {
+    defineRoles(options.roles);
+  }
+
+  if (options?.regex) {
+    configureRegex(options.regex);
+  }
+
+  if (options?.cache) {
+    instance.configureCache(options.cache);
+  }
+
+  if (options?.user !== undefined) {
+    instance.setPermissionUser(options.user);
+  }
+
+  if (options?.fetchPermissions) {
+    try {
+      permissions = await options.fetchPermissions();
+    } catch (e) {
+      console.error("[v-permission] Failed to fetch permissions:", e);
+      permissions = getPermissionsFromStorage(storageKey) ?? [];
     }
+  } else if (isScopedPermissions(options?.permissions)) {
+    // One list per scope, used as-is
+    permissions = options.permissions;
+  } else if (options?.permissions) {
+    permissions = normalizePermissions(options.permissions);
+  } else {
+    permissions = getPermissionsFromStorage(storageKey) ?? [];
+  }
 
-    clearPermissionCache();
-    configurePermission(permissions, {
-      developmentMode: options?.developmentMode,
-    });
+  instance.clearPermissionCache();
+  instance.configurePermission(permissions, {
+    developmentMode: options?.developmentMode,
+    scope: options?.scope,
+  });
+
+  // Storage holds a single flat list, so scoped sets aren't persisted
+  if (options?.persist !== false && Array.isArray(permissions)) {
+    savePermissionsToStorage(permissions, storageKey);
+  }
+};
 
-    if (options?.persist !== false) {
-      savePermissionsToStorage(permissions);
+// Options that configure shared definitions (the role table, regex
+// limits); an instance setting them would reach into every other app
+const SHARED_OPTIONS = {
+  roles: "defineRoles()",
+  regex: "configureRegex()",
+} as const;
+
+/**
+ * createPermissions
+ * -----------------
+ * An isolated permission instance, installed with app.use:
+ *
+ * const permissions = createPermissions({ permissions: ["posts.view"] });
+ * app.use(permissions);
+ * await permissions.hasPermission("posts.view");
+ *
+ * v-permission, usePermission() and guards given `{ instance }` use it
+ * instead of the default instance.
+ */
+export const createPermissions = (options: PluginOptions = {}) => {
+  for (const [name, setter] of Object.entries(SHARED_OPTIONS)) {
+    if (options[name as keyof typeof SHARED_OPTIONS] !== undefined) {
+      throw new TypeError(
+        `[v-permission] createPermissions() doesn't accept "${name}": it ` +
+          `is shared by every instance, call ${setter} instead`
+      );
     }
+  }
 
-    // Provide reactive permissions to components and directives
-    const reactivePermissions = getReactivePermissions();
-    app.provide("__v_permission_reactive__", reactivePermissions);
+  const instance = createPermissionInstance({
+    cache: options.cache,
+    storageKey: options.storageKey,
+  });
+  return Object.assign(instance, {
+    install: (app: App) => installPermissions(app, instance, options),
+  });
+};
 
-    app.directive("permission", vPermission);
+export default {
+  install(app: App, options?: PluginOptions) {
+    return installPermissions(app, defaultPermissions, options);
   },
 };
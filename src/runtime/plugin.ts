@@ -2,7 +2,9 @@
 import { defineNuxtPlugin, useRuntimeConfig } from "#app";
 // @ts-expect-error #app is a Nuxt internal alias only available in Nuxt context
 import type { NuxtApp } from "#app";
-import PermissionPlugin from "@/plugin";
+import { createPermissions } from "@/plugin";
+import { configureRegex, defineRoles } from "@/core";
+import { STORAGE_KEY } from "@/utils/storage";
 
 export default defineNuxtPlugin(async (nuxtApp: NuxtApp) => {
   const cfg = useRuntimeConfig().public.permission as any;
@@ -32,12 +34,25 @@ export default defineNuxtPlugin(async (nuxtApp: NuxtApp) => {
   }
 
   try {
-    nuxtApp.vueApp.use(PermissionPlugin as any, {
+    // Roles and regex limits are definitions shared by every instance
+    if (cfg.roles) defineRoles(cfg.roles);
+    if (cfg.regex) configureRegex(cfg.regex);
+
+    // One instance per Nuxt app, so concurrent SSR requests don't share
+    // permissions or cached results; disposed when the app unmounts
+    const permissions = createPermissions({
       permissions: cfg.permissions,
+      scope: cfg.scope,
       developmentMode: cfg.developmentMode,
       fetchPermissions: fetchFn,
       persist: cfg.persist,
+      cache: cfg.cache,
+      disable: cfg.disable,
+      // Keeps the key the module has always used
+      storageKey: STORAGE_KEY,
     });
+    nuxtApp.vueApp.use(permissions);
+    return { provide: { permissions } };
   } catch (e) {
     console.error("[v-permission] Failed to install plugin:", e);
   }
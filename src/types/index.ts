@@ -1,32 +1,246 @@
 import type { Ref } from "vue";
 import type { RouteLocationNormalized } from "vue-router";
+import type { PermissionInstance } from "../core/instance";
 
 /* -------------------------------------------------
  * Permission Modes
  * ------------------------------------------------- */
-export type PermissionMode =
-  | "and"
-  | "or"
-  | "not"
-  | "startWith"
-  | "endWith"
-  | "regex";
+/**
+ * Known modes. Augment this interface when registering a custom mode
+ * (see registerPermissionMode) so it type-checks everywhere:
+ *
+ * declare module "vue-nuxt-permission" {
+ *   interface PermissionModeRegistry {
+ *     exactlyOne: true;
+ *   }
+ * }
+ */
+export interface PermissionModeRegistry {
+  and: true;
+  or: true;
+  not: true;
+  startWith: true;
+  endWith: true;
+  regex: true;
+  wildcard: true;
+  level: true;
+}
+
+export type PermissionMode = keyof PermissionModeRegistry;
+
+/* -------------------------------------------------
+ * Mode Handlers
+ * ------------------------------------------------- */
+export interface PermissionModeContext {
+  /** Granted permissions, with roles expanded and denied ones removed */
+  granted: string[];
+  /** True if `permission` is granted (honors wildcard grants and denies) */
+  isGranted: (permission: string) => boolean;
+  /** True if `permission` is explicitly denied ("!permission" granted) */
+  isDenied: (permission: string) => boolean;
+}
+
+export interface PermissionModeHandler {
+  /**
+   * How entry results combine into the group's result. A function receives
+   * every entry's result (no short-circuiting).
+   */
+  combine: "every" | "some" | "none" | ((results: boolean[]) => boolean);
+  /**
+   * Test one string entry of a group against the granted permissions.
+   * `group` is the rule object, for modes that read extra fields from it.
+   */
+  test: (
+    entry: string,
+    ctx: PermissionModeContext,
+    group: PermissionObject
+  ) => boolean;
+  /** Granted permissions an entry matched, for explain traces */
+  matches?: (
+    entry: string,
+    ctx: PermissionModeContext,
+    group: PermissionObject
+  ) => string[];
+  /** Return an error message to reject an entry before testing it */
+  validate?: (
+    entry: string,
+    group: PermissionObject
+  ) => string | null | undefined;
+}
 
 /* -------------------------------------------------
  * Permission Value
  * ------------------------------------------------- */
+/**
+ * A group of rules combined by `mode`. Entries are either permission
+ * strings or nested rules, so groups can be nested to any depth:
+ * { mode: "or", permissions: [{ mode: "and", permissions: ["a", "b"] }, "admin"] }
+ */
 export interface PermissionObject {
-  permissions: string[];
+  permissions: PermissionValue[];
   mode: PermissionMode;
+  /** Mode "level": minimum level for entries without their own level */
+  min?: number;
+  /** Mode "level": maximum level for entries without their own level */
+  max?: number;
+  /** Mode "regex": RegExp flags; only "i", "m", "s" and "u" are allowed */
+  flags?: string;
+  /** Mode "regex": the pattern must match the whole permission */
+  anchored?: boolean;
+}
+
+/**
+ * A resource-level check resolved by a policy (see definePolicy):
+ * { ability: "post.edit", subject: post }
+ */
+export interface AbilityRule {
+  ability: string;
+  subject?: unknown;
 }
 
 export type PermissionValue =
   | "*"
   | string
+  | PermissionValue[]
+  | PermissionObject
+  | AbilityRule;
+
+/**
+ * A granted permission that only applies within a time window (see
+ * resolveGrants). Dates may be Date objects, timestamps or date strings.
+ */
+export interface TimedGrant {
+  permission: string;
+  notBefore?: Date | number | string;
+  expiresAt?: Date | number | string;
+}
+
+export type PermissionGrant = string | TimedGrant;
+
+export type PermissionsArray = PermissionGrant[] | Ref<PermissionGrant[]>;
+
+/**
+ * Separate permission sets per scope (tenant, organization, project...):
+ * { "org:1": ["posts.*"], "org:2": ["posts.view"] }
+ */
+export type ScopedPermissions = Record<string, PermissionsArray>;
+
+/* -------------------------------------------------
+ * Policies & Context
+ * ------------------------------------------------- */
+export interface PermissionContext {
+  /** Defaults to the user set with setPermissionUser / PluginOptions.user */
+  user?: unknown;
+  /** Used when an ability rule doesn't carry its own subject */
+  subject?: unknown;
+  /** Check against this scope's permissions instead of the active scope */
+  scope?: string;
+  [key: string]: unknown;
+}
+
+export type PolicyHandler = (
+  user: any,
+  subject: any,
+  context: PermissionContext & { permissions: string[] }
+) => boolean | Promise<boolean>;
+
+/* -------------------------------------------------
+ * Async Checkers
+ * ------------------------------------------------- */
+export type AsyncPermissionChecker = (
+  /** The permission with the registered prefix removed */
+  key: string,
+  context: { permission: string }
+) => boolean | Promise<boolean>;
+
+/* -------------------------------------------------
+ * Regex Budget
+ * ------------------------------------------------- */
+export interface RegexOptions {
+  /** Longest pattern accepted (default 256) */
+  maxLength?: number;
+  /** Max groups + quantifiers + alternations per pattern (default 32) */
+  maxComplexity?: number;
+  /** Compiled patterns kept in the LRU (default 200) */
+  cacheSize?: number;
+}
+
+/* -------------------------------------------------
+ * Result Cache
+ * ------------------------------------------------- */
+export interface CacheOptions {
+  /** Set to false to evaluate every check (default true) */
+  enabled?: boolean;
+  /** Milliseconds a cached result stays valid (default 5 minutes) */
+  ttl?: number;
+  /** Entries kept before evicting (default 1000) */
+  maxSize?: number;
+  /** Evict the least recently used ("lru", default) or oldest ("fifo") entry */
+  strategy?: "lru" | "fifo";
+  /** Milliseconds between purges of expired entries; 0 disables (default 1 minute) */
+  sweepInterval?: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** Entries dropped because the cache was full */
+  evictions: number;
+  /** Entries dropped because their TTL passed */
+  expired: number;
+  size: number;
+  /** hits / (hits + misses), 0 before the first lookup */
+  hitRate: number;
+}
+
+/* -------------------------------------------------
+ * Directive Disable Mode
+ * ------------------------------------------------- */
+export interface DisableOptions {
+  /** Class added while disabled, "" for none (default "v-permission-disabled") */
+  class?: string;
+  /** Tooltip shown while disabled; the original title comes back after */
+  title?: string;
+}
+
+/**
+ * v-permission value checking `rule` against `scope`'s permissions instead
+ * of the active scope's: `v-permission="{ rule: 'posts.edit', scope }"`
+ */
+export interface ScopedRule {
+  rule: PermissionValue;
+  scope: string;
+}
+
+/* -------------------------------------------------
+ * Explain Trace
+ * ------------------------------------------------- */
+export interface PermissionTrace {
+  /** The rule node this trace describes */
+  rule: PermissionValue;
+  /** Mode of the node ("or" for arrays); absent for single permissions */
+  mode?: PermissionMode;
+  result: boolean;
+  /** Granted permissions that satisfied this node or its children */
+  matched: string[];
+  /** Required permissions/patterns that found no match */
+  missing: string[];
+  /** Why the node resolved the way it did, when not obvious */
+  reason?: string;
+  children?: PermissionTrace[];
+}
+
+/* -------------------------------------------------
+ * Roles
+ * ------------------------------------------------- */
+export type RoleDefinition =
   | string[]
-  | PermissionObject;
+  | {
+      inherits?: string[];
+      permissions?: string[];
+    };
 
-export type PermissionsArray = string[] | Ref<string[]>;
+export type RoleMap = Record<string, RoleDefinition>;
 
 /* -------------------------------------------------
  * Global Config
@@ -34,25 +248,50 @@ export type PermissionsArray = string[] | Ref<string[]>;
 export interface GlobalConfig {
   permissions: PermissionsArray | null;
   developmentMode: boolean;
+  user?: unknown;
+  scopes?: ScopedPermissions | null;
+  activeScope?: string | null;
 }
 
 /* -------------------------------------------------
  * Plugin Options
  * ------------------------------------------------- */
 export interface PluginOptions {
-  permissions?: PermissionsArray;
+  permissions?: PermissionsArray | ScopedPermissions;
+  /** Active scope when `permissions` is a scoped map */
+  scope?: string;
   developmentMode?: boolean;
-  fetchPermissions?: () => Promise<string[]>;
+  fetchPermissions?: () => Promise<PermissionGrant[]>;
   persist?: boolean;
+  roles?: RoleMap;
+  user?: unknown;
+  regex?: RegexOptions;
+  cache?: CacheOptions;
+  /**
+   * localStorage key for `persist`; isolated instances default to a key of
+   * their own
+   */
+  storageKey?: string;
+  /** Class and title of elements in `v-permission:disable` mode */
+  disable?: DisableOptions;
 }
 
 /* -------------------------------------------------
  * Route Meta with Permissions
  * ------------------------------------------------- */
+/**
+ * Scope a route's permissions are checked in: a scope name, or a function
+ * deriving it from the route (e.g. `(to) => \`org:${to.params.orgId}\``)
+ */
+export type PermissionScopeResolver =
+  | string
+  | ((route: RouteLocationNormalized) => string | null | undefined);
+
 export interface RouteMetaWithPermissions {
   requiresAuth?: boolean;
   checkPermission?: boolean;
   permissions?: PermissionValue;
+  permissionScope?: PermissionScopeResolver;
   isAuthRoute?: boolean;
   [key: string]: any;
 }
@@ -71,6 +310,8 @@ export interface PermissionRoute {
  * Guard Options
  * ------------------------------------------------- */
 export interface GuardOptions {
+  /** Instance to check against (see createPermissions); default instance otherwise */
+  instance?: PermissionInstance;
   authRoutes?: Array<{ path: string }>;
   protectedRoutes?: PermissionRoute[];
   getAuthState?: () => AuthState;
@@ -98,19 +339,6 @@ export interface AuthState {
   };
 }
 
-/* -------------------------------------------------
- * HTMLElement Augmentation
- * ------------------------------------------------- */
-declare global {
-  interface HTMLElement {
-    _vPermissionOriginalDisplay?: string;
-    _vPermissionSkipUpdates?: boolean;
-    _vPermissionParent?: Node | null;
-    _vPermissionNextSibling?: Node | null;
-    _vPermissionComment?: Comment | null;
-  }
-}
-
 /* -------------------------------------------------
  * Vue Router Meta
  * ------------------------------------------------- */
@@ -119,6 +347,7 @@ declare module "vue-router" {
     requiresAuth?: boolean;
     checkPermission?: boolean;
     permissions?: PermissionValue;
+    permissionScope?: PermissionScopeResolver;
     isAuthRoute?: boolean;
   }
 }
@@ -1,9 +1,20 @@
-import { isDevMode } from "@/core";
+import { isDevMode } from "@/core/config";
 
-export const logDebug = (...args: any[]) => {
-  if (isDevMode()) {
-    console.groupCollapsed("[v-permission:debug]");
-    console.log(...args);
-    console.groupEnd();
-  }
-};
+export type DebugLogger = (...args: any[]) => void;
+
+/**
+ * A logger that logs only while `devMode()` is true, e.g. the isDevMode of
+ * a permission instance created with createPermissions
+ */
+export const createDebugLogger =
+  (devMode: () => boolean): DebugLogger =>
+  (...args: any[]) => {
+    if (devMode()) {
+      console.groupCollapsed("[v-permission:debug]");
+      console.log(...args);
+      console.groupEnd();
+    }
+  };
+
+// Logs while the default instance is in development mode
+export const logDebug = createDebugLogger(isDevMode);
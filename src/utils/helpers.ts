@@ -1,9 +1,15 @@
-import type { PermissionMode, PermissionsArray } from "@/types";
+import type {
+  AbilityRule,
+  PermissionGrant,
+  PermissionObject,
+  PermissionsArray,
+} from "@/types";
 import { isRef } from "vue";
+import type { RouteLocationNormalized } from "vue-router";
 
 export const normalizePermissions = (
   p: PermissionsArray | null | undefined,
-): string[] => {
+): PermissionGrant[] => {
   if (!p) return [];
   const v = isRef(p) ? p.value : p;
   return Array.isArray(v) ? v.filter(Boolean) : [];
@@ -11,6 +17,10 @@ export const normalizePermissions = (
 
 export const sortUniq = (arr: string[]) => Array.from(new Set(arr)).sort();
 
+/* Same entries in the same order (compared with ===) */
+export const sameEntries = <T>(a: readonly T[], b: readonly T[]) =>
+  a.length === b.length && a.every((entry, i) => entry === b[i]);
+
 /* Stable stringify for cache keys */
 export const stableStringify = (value: any): string => {
   const seen = new WeakSet();
@@ -35,9 +45,25 @@ export const stableStringify = (value: any): string => {
 
 export const isPermissionObject = (
   v: unknown,
-): v is { permissions: string[]; mode: PermissionMode } =>
+): v is PermissionObject =>
   !!v &&
   typeof v === "object" &&
   !Array.isArray(v) &&
   "permissions" in v &&
   "mode" in v;
+
+export const isAbilityRule = (v: unknown): v is AbilityRule =>
+  !!v &&
+  typeof v === "object" &&
+  !Array.isArray(v) &&
+  "ability" in v &&
+  typeof (v as AbilityRule).ability === "string";
+
+/* Scope of a route's permission check, from meta.permissionScope */
+export const resolveRouteScope = (
+  route: RouteLocationNormalized,
+): string | undefined => {
+  const scope = route.meta?.permissionScope;
+  const resolved = typeof scope === "function" ? scope(route) : scope;
+  return resolved ?? undefined;
+};
@@ -1,4 +1,4 @@
-const STORAGE_KEY = "__v_permission__";
+export const STORAGE_KEY = "__v_permission__";
 
 // Check if browser environment is available (dynamic check to support testing)
 const getIsBrowser = (): boolean =>
@@ -42,19 +42,23 @@ const decrypt = (value: string): any => {
   }
 };
 
-export const savePermissionsToStorage = (permissions: any) => {
+// `key` separates the stored lists of isolated instances (createPermissions)
+export const savePermissionsToStorage = (
+  permissions: any,
+  key = STORAGE_KEY
+) => {
   if (!getIsBrowser()) return;
   try {
-    localStorage.setItem(STORAGE_KEY, encrypt(permissions));
+    localStorage.setItem(key, encrypt(permissions));
   } catch (e) {
     console.warn("[v-permission] Failed to save permissions to storage:", e);
   }
 };
 
-export const getPermissionsFromStorage = () => {
+export const getPermissionsFromStorage = (key = STORAGE_KEY) => {
   if (!getIsBrowser()) return null;
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
+    const stored = localStorage.getItem(key);
     return stored ? decrypt(stored) : null;
   } catch (e) {
     console.warn("[v-permission] Failed to read permissions from storage:", e);
@@ -62,10 +66,10 @@ export const getPermissionsFromStorage = () => {
   }
 };
 
-export const clearPermissionsFromStorage = () => {
+export const clearPermissionsFromStorage = (key = STORAGE_KEY) => {
   if (!getIsBrowser()) return;
   try {
-    localStorage.removeItem(STORAGE_KEY);
+    localStorage.removeItem(key);
   } catch (e) {
     console.warn("[v-permission] Failed to clear permissions from storage:", e);
   }
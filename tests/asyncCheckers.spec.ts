@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { flushPromises } from "@vue/test-utils";
+import {
+  clearAsyncCheckers,
+  onAsyncPermissionResolved,
+  registerAsyncChecker,
+  resolveAsyncPermission,
+  unregisterAsyncChecker,
+} from "../src/core/asyncCheckers";
+import { checkPermissionSync, hasPermission } from "../src/core/evaluator";
+import { configurePermission, setPermissions } from "../src/core/config";
+import { clearPermissionCache } from "../src/core/cache";
+import { mountWithPlugin } from "./testUtils";
+
+describe("Async checkers (asyncCheckers.ts)", () => {
+  let flags: Record<string, boolean>;
+  let checker: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    clearPermissionCache();
+    configurePermission(["posts.view"]);
+    flags = { newDashboard: true, beta: false };
+    checker = vi.fn(async (key: string) => flags[key] === true);
+    registerAsyncChecker("feature:", checker);
+  });
+
+  afterEach(() => {
+    clearAsyncCheckers();
+  });
+
+  describe("registry", () => {
+    it("rejects invalid registrations", () => {
+      expect(() => registerAsyncChecker("", checker)).toThrow(TypeError);
+      expect(() => registerAsyncChecker("x:", "nope" as any)).toThrow(
+        TypeError
+      );
+    });
+
+    it("passes the key without its prefix", async () => {
+      await hasPermission("feature:newDashboard");
+      expect(checker).toHaveBeenCalledWith("newDashboard", {
+        permission: "feature:newDashboard",
+      });
+    });
+
+    it("uses the longest matching prefix", async () => {
+      const beta = vi.fn(() => true);
+      registerAsyncChecker("feature:beta:", beta);
+
+      expect(await hasPermission("feature:beta:reports")).toBe(true);
+      expect(beta).toHaveBeenCalledWith("reports", expect.anything());
+      expect(checker).not.toHaveBeenCalled();
+    });
+
+    it("stops consulting a removed checker", async () => {
+      unregisterAsyncChecker("feature:");
+      expect(await hasPermission("feature:newDashboard")).toBe(false);
+      expect(checker).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("evaluation", () => {
+    it("awaits checkers in hasPermission", async () => {
+      expect(await hasPermission("feature:newDashboard")).toBe(true);
+      expect(await hasPermission("feature:beta")).toBe(false);
+    });
+
+    it("combines with other rules and expressions", async () => {
+      expect(await hasPermission("posts.view && feature:newDashboard")).toBe(
+        true
+      );
+      expect(
+        await hasPermission({
+          mode: "and",
+          permissions: ["posts.view", "feature:beta"],
+        })
+      ).toBe(false);
+      expect(await hasPermission(["feature:beta", "posts.view"])).toBe(true);
+    });
+
+    it("still honours granted permissions with the prefix", async () => {
+      expect(await hasPermission("feature:beta", ["feature:beta"])).toBe(true);
+      expect(checker).not.toHaveBeenCalled();
+    });
+
+    it("caches results and shares in-flight requests", async () => {
+      await Promise.all([
+        hasPermission("feature:newDashboard"),
+        hasPermission(["feature:newDashboard"]),
+      ]);
+      await hasPermission("feature:newDashboard");
+      expect(checker).toHaveBeenCalledTimes(1);
+
+      clearPermissionCache();
+      await hasPermission("feature:newDashboard");
+      expect(checker).toHaveBeenCalledTimes(2);
+    });
+
+    it("denies until the result arrives in sync checks", async () => {
+      expect(checkPermissionSync("feature:newDashboard")).toBe(false);
+      await flushPromises();
+      expect(checkPermissionSync("feature:newDashboard")).toBe(true);
+    });
+
+    it("denies without caching when a checker fails", async () => {
+      let online = false;
+      registerAsyncChecker("remote:", async () => {
+        if (!online) throw new Error("offline");
+        return true;
+      });
+
+      expect(await hasPermission("remote:x")).toBe(false);
+      online = true;
+      expect(await hasPermission("remote:x")).toBe(true);
+    });
+
+    it("notifies listeners when a result changes", async () => {
+      const listener = vi.fn();
+      const stop = onAsyncPermissionResolved(listener);
+
+      await resolveAsyncPermission("feature:newDashboard");
+      expect(listener).toHaveBeenCalledWith("feature:newDashboard", true);
+
+      clearPermissionCache();
+      await resolveAsyncPermission("feature:newDashboard");
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      stop();
+      flags.newDashboard = false;
+      clearPermissionCache();
+      await resolveAsyncPermission("feature:newDashboard");
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("v-permission", () => {
+    const mountWith = (template: string) =>
+      mountWithPlugin(template, ["posts.view"]);
+
+    it("reveals elements once a checker resolves", async () => {
+      const wrapper = mountWith(
+        `<button v-permission="'feature:newDashboard'">Dashboard</button>`
+      );
+
+      expect(wrapper.html()).not.toContain("Dashboard");
+      await flushPromises();
+      expect(wrapper.html()).toContain("Dashboard");
+    });
+
+    it("re-evaluates when a result changes after mount", async () => {
+      const wrapper = mountWith(
+        `<button v-permission:show="'feature:newDashboard'">Dashboard</button>`
+      );
+      await flushPromises();
+      expect(wrapper.find("button").element.style.display).not.toBe("none");
+
+      flags.newDashboard = false;
+      clearPermissionCache();
+      await resolveAsyncPermission("feature:newDashboard");
+      await flushPromises();
+      expect(wrapper.find("button").element.style.display).toBe("none");
+    });
+
+    it("drops results that finish after a newer evaluation", async () => {
+      const pending: Array<(value: boolean) => void> = [];
+      registerAsyncChecker(
+        "slow:",
+        () => new Promise<boolean>((resolve) => pending.push(resolve))
+      );
+      const wrapper = mountWith(
+        `<button v-permission="'posts.view && slow:x'">Export</button>`
+      );
+      await flushPromises();
+
+      setPermissions([]);
+      await flushPromises();
+      pending.forEach((resolve) => resolve(true));
+      await flushPromises();
+      expect(wrapper.find("button").exists()).toBe(false);
+    });
+  });
+});
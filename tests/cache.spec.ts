@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createApp, ref } from "vue";
+import {
+  clearPermissionCache,
+  configureCache,
+  getCachedPermission,
+  getCacheOptions,
+  getCacheStats,
+  resetCacheStats,
+  setCachedPermission,
+} from "../src/core/cache";
+import {
+  configurePermission,
+  setPermissionScope,
+} from "../src/core/config";
+import { hasPermission } from "../src/core/evaluator";
+import { usePermission } from "../src/composables/usePermission";
+import PermissionPlugin from "../src/plugin";
+
+describe("Cache Configuration (cache.ts)", () => {
+  beforeEach(() => {
+    configureCache();
+    clearPermissionCache();
+    resetCacheStats();
+  });
+
+  afterEach(() => {
+    configureCache();
+    vi.useRealTimers();
+  });
+
+  it("uses a configurable TTL", () => {
+    vi.useFakeTimers();
+    configureCache({ ttl: 1000 });
+
+    setCachedPermission("a", true);
+    vi.advanceTimersByTime(1000);
+    expect(getCachedPermission("a")).toBe(true);
+
+    vi.advanceTimersByTime(1);
+    expect(getCachedPermission("a")).toBeNull();
+    expect(getCacheStats().expired).toBe(1);
+  });
+
+  it("keeps recently read entries with the lru strategy", () => {
+    configureCache({ maxSize: 2 });
+
+    setCachedPermission("a", true);
+    setCachedPermission("b", true);
+    getCachedPermission("a");
+    setCachedPermission("c", true);
+
+    expect(getCachedPermission("a")).toBe(true);
+    expect(getCachedPermission("b")).toBeNull();
+    expect(getCachedPermission("c")).toBe(true);
+  });
+
+  it("evicts the oldest entry with the fifo strategy", () => {
+    configureCache({ maxSize: 2, strategy: "fifo" });
+
+    setCachedPermission("a", true);
+    setCachedPermission("b", true);
+    getCachedPermission("a");
+    setCachedPermission("c", true);
+
+    expect(getCachedPermission("a")).toBeNull();
+    expect(getCachedPermission("b")).toBe(true);
+  });
+
+  it("trims existing entries when maxSize shrinks", () => {
+    ["a", "b", "c"].forEach((key) => setCachedPermission(key, true));
+    configureCache({ maxSize: 1 });
+
+    expect(getCacheStats()).toMatchObject({ size: 1, evictions: 2 });
+    expect(getCachedPermission("c")).toBe(true);
+  });
+
+  it("stores nothing when disabled", async () => {
+    configureCache({ enabled: false });
+    configurePermission(["posts.view"]);
+
+    setCachedPermission("a", true);
+    expect(getCachedPermission("a")).toBeNull();
+    expect(await hasPermission("posts.view")).toBe(true);
+    expect(getCacheStats().size).toBe(0);
+  });
+
+  it("counts hits, misses and evictions", async () => {
+    configureCache({ maxSize: 1 });
+    configurePermission(["posts.view"]);
+
+    await hasPermission("posts.view"); // miss
+    await hasPermission("posts.view"); // hit
+    await hasPermission("posts.edit"); // miss, evicts posts.view
+
+    expect(getCacheStats()).toEqual({
+      hits: 1,
+      misses: 2,
+      evictions: 1,
+      expired: 0,
+      size: 1,
+      hitRate: 1 / 3,
+    });
+
+    resetCacheStats();
+    expect(getCacheStats()).toMatchObject({ hits: 0, misses: 0, hitRate: 0 });
+  });
+
+  it("rejects invalid options", () => {
+    expect(() => configureCache({ ttl: -1 })).toThrow(TypeError);
+    expect(() => configureCache({ maxSize: 0 })).toThrow(TypeError);
+    expect(() =>
+      configureCache({ strategy: "random" as "lru" })
+    ).toThrow('Unknown cache strategy "random"');
+  });
+
+  it("is configured through the plugin options", async () => {
+    await PermissionPlugin.install(createApp({}), {
+      permissions: [],
+      persist: false,
+      cache: { ttl: 60_000, strategy: "fifo" },
+    });
+
+    expect(getCacheOptions()).toEqual({
+      enabled: true,
+      ttl: 60_000,
+      maxSize: 1000,
+      strategy: "fifo",
+      sweepInterval: 60_000,
+    });
+  });
+
+  describe("automatic invalidation", () => {
+    it("drops results when permissions are configured", async () => {
+      configurePermission(["posts.view"]);
+      await hasPermission("posts.view");
+      setCachedPermission("async:flags.beta", true, {
+        dependsOnPermissions: false,
+      });
+
+      configurePermission(["posts.edit"]);
+      // Results that don't depend on the permissions survive
+      expect(getCacheStats().size).toBe(1);
+      expect(getCachedPermission("async:flags.beta")).toBe(true);
+    });
+
+    it("follows edits inside a configured Ref", async () => {
+      const permissions = ref(["posts.view", "posts.edit"]);
+      configurePermission(permissions);
+      expect(await hasPermission("posts.edit")).toBe(true);
+
+      // Same length, edited in place
+      permissions.value[1] = "posts.delete";
+      expect(getCacheStats().size).toBe(0);
+      expect(await hasPermission("posts.edit")).toBe(false);
+      expect(await hasPermission("posts.delete")).toBe(true);
+    });
+
+    it("keeps watching a Ref configured inside a component", async () => {
+      const permissions = ref(["a"]);
+      const app = createApp({
+        setup() {
+          configurePermission(permissions);
+          return () => null;
+        },
+      });
+      app.mount(document.createElement("div"));
+      expect(await hasPermission("a")).toBe(true);
+      app.unmount();
+
+      permissions.value = ["b"];
+      expect(getCacheStats().size).toBe(0);
+      expect(usePermission().permissions.value).toEqual(["b"]);
+      expect(await hasPermission("a")).toBe(false);
+    });
+
+    it("stops watching a Ref once it is replaced", async () => {
+      const old = ref(["posts.view"]);
+      configurePermission(old);
+      configurePermission(["posts.edit"]);
+      await hasPermission("posts.edit");
+
+      old.value = [];
+      expect(getCacheStats().size).toBe(1);
+    });
+
+    it("drops results on scope switches and setPermissions", async () => {
+      configurePermission({ a: ["x"], b: ["y"] }, { scope: "a" });
+      await hasPermission("x");
+      setPermissionScope("b");
+      expect(getCacheStats().size).toBe(0);
+
+      const { can, setPermissions } = usePermission();
+      await can("x");
+      setPermissions(["x"]);
+      expect(getCacheStats().size).toBe(0);
+      setPermissionScope(null);
+    });
+  });
+
+  describe("sweep timer", () => {
+    it("purges expired entries while the cache holds any", () => {
+      vi.useFakeTimers();
+      configureCache({ ttl: 1000, sweepInterval: 5000 });
+
+      setCachedPermission("a", true);
+      vi.advanceTimersByTime(5000);
+      expect(getCacheStats()).toMatchObject({ size: 0, expired: 1 });
+      // Nothing left to sweep, so the timer stopped
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it("is not started when disabled", () => {
+      vi.useFakeTimers();
+      configureCache({ sweepInterval: 0 });
+
+      setCachedPermission("a", true);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it("stops when the cache is cleared or the app unmounts", async () => {
+      vi.useFakeTimers();
+      setCachedPermission("a", true);
+      expect(vi.getTimerCount()).toBe(1);
+      clearPermissionCache();
+      expect(vi.getTimerCount()).toBe(0);
+
+      const app = createApp({ render: () => null });
+      await PermissionPlugin.install(app, { permissions: [], persist: false });
+      setCachedPermission("a", true);
+      app.mount(document.createElement("div"));
+      app.unmount();
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { flushPromises } from "@vue/test-utils";
+import { defineComponent, h, ref, Teleport } from "vue";
+import { setPermissions } from "../src/core/config";
+import { mountWithPlugin, resetPermissionsPerTest } from "./testUtils";
+
+// Vue warns about directives on non-element roots even though the
+// plugin's mixin handles them
+const silenceRootWarning = () =>
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+
+const MultiRoot = defineComponent({
+  setup() {
+    return () => [
+      h("h2", { class: "title" }, "Title"),
+      h("p", { class: "body" }, "Body"),
+    ];
+  },
+});
+
+const TeleportRoot = defineComponent({
+  setup() {
+    return () =>
+      h(Teleport, { to: "body" }, [h("div", { class: "modal" }, "Modal")]);
+  },
+});
+
+const mountWith = (
+  template: string,
+  permissions: string[] = [],
+  setup: () => Record<string, unknown> = () => ({})
+) =>
+  mountWithPlugin(template, permissions, setup, {
+    components: { MultiRoot, TeleportRoot, Teleport },
+    attachTo: document.body,
+  });
+
+describe("v-permission on components", () => {
+  resetPermissionsPerTest();
+
+  beforeEach(() => {
+    silenceRootWarning();
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = "";
+    vi.restoreAllMocks();
+  });
+
+  it("applies to every root of a multi-root component", async () => {
+    const wrapper = mountWith(
+      `<MultiRoot v-permission:show="'posts.view'" />`
+    );
+    await flushPromises();
+
+    expect(wrapper.find(".title").attributes("style")).toContain("none");
+    expect(wrapper.find(".body").attributes("style")).toContain("none");
+
+    setPermissions(["posts.view"]);
+    await flushPromises();
+    expect(wrapper.find(".title").attributes("style") ?? "").not.toContain(
+      "none"
+    );
+    expect(wrapper.find(".body").attributes("style") ?? "").not.toContain(
+      "none"
+    );
+    wrapper.unmount();
+  });
+
+  it("removes and restores the roots of a multi-root component", async () => {
+    const wrapper = mountWith(`<MultiRoot v-permission="'posts.view'" />`);
+    await flushPromises();
+
+    expect(wrapper.find(".title").exists()).toBe(false);
+    expect(wrapper.find(".body").exists()).toBe(false);
+
+    setPermissions(["posts.view"]);
+    await flushPromises();
+    expect(wrapper.find(".title").exists()).toBe(true);
+    expect(wrapper.find(".body").exists()).toBe(true);
+    wrapper.unmount();
+  });
+
+  it("applies to the content of a <Teleport> root", async () => {
+    const wrapper = mountWith(
+      `<TeleportRoot v-permission:disable="'modal.open'" />`
+    );
+    await flushPromises();
+
+    const modal = document.body.querySelector(".modal")!;
+    expect(modal.hasAttribute("disabled")).toBe(true);
+
+    setPermissions(["modal.open"]);
+    await flushPromises();
+    expect(modal.hasAttribute("disabled")).toBe(false);
+    wrapper.unmount();
+  });
+
+  it("follows teleported children of an element", async () => {
+    const wrapper = mountWith(`
+      <section v-permission:show="'modal.open'">
+        <Teleport to="body"><div class="modal">Modal</div></Teleport>
+      </section>
+    `);
+    await flushPromises();
+
+    const modal = document.body.querySelector<HTMLElement>(".modal")!;
+    expect(wrapper.find("section").attributes("style")).toContain("none");
+    expect(modal.style.display).toBe("none");
+
+    setPermissions(["modal.open"]);
+    await flushPromises();
+    expect(modal.style.display).not.toBe("none");
+    wrapper.unmount();
+  });
+
+  it("doesn't enter child components for teleports", async () => {
+    const wrapper = mountWith(`
+      <section v-permission:show="'modal.open'">
+        <TeleportRoot />
+      </section>
+    `);
+    await flushPromises();
+
+    const modal = document.body.querySelector<HTMLElement>(".modal")!;
+    expect(wrapper.find("section").attributes("style")).toContain("none");
+    expect(modal.style.display).toBe("");
+    wrapper.unmount();
+  });
+
+  it("re-evaluates on binding changes", async () => {
+    const rule = ref("posts.view");
+    const wrapper = mountWith(
+      `<MultiRoot v-permission:show="rule" />`,
+      ["posts.view"],
+      () => ({ rule })
+    );
+    await flushPromises();
+    expect(wrapper.find(".body").attributes("style") ?? "").not.toContain(
+      "none"
+    );
+
+    rule.value = "posts.edit";
+    await flushPromises();
+    expect(wrapper.find(".body").attributes("style")).toContain("none");
+    wrapper.unmount();
+  });
+
+  it("leaves no state on the elements", async () => {
+    const wrapper = mountWith(`
+      <button v-permission:disable="'posts.edit'">Edit</button>
+      <MultiRoot v-permission="'posts.view'" />
+    `);
+    await flushPromises();
+
+    const button = wrapper.find("button").element;
+    expect(
+      Object.keys(button).filter((key) => key.startsWith("_vPermission"))
+    ).toEqual([]);
+    wrapper.unmount();
+  });
+
+  it("stops following permission changes on unmount", async () => {
+    const show = ref(true);
+    const wrapper = mountWith(
+      `<MultiRoot v-if="show" v-permission:show="'posts.view'" />`,
+      [],
+      () => ({ show })
+    );
+    await flushPromises();
+    const title = wrapper.find(".title").element as HTMLElement;
+
+    show.value = false;
+    await flushPromises();
+    setPermissions(["posts.view"]);
+    await flushPromises();
+    expect(title.style.display).toBe("none");
+    wrapper.unmount();
+  });
+});
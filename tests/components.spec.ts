@@ -0,0 +1,119 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { flushPromises, mount } from "@vue/test-utils";
+import { ref } from "vue";
+import PermissionPlugin from "../src/plugin";
+import { Can } from "../src/components/Can";
+import { configurePermission, setPermissions } from "../src/core/config";
+import {
+  clearAsyncCheckers,
+  registerAsyncChecker,
+} from "../src/core/asyncCheckers";
+import { mountWithPlugin, resetPermissionsPerTest } from "./testUtils";
+
+describe("<Can> / <Cannot>", () => {
+  resetPermissionsPerTest();
+
+  afterEach(() => {
+    clearAsyncCheckers();
+  });
+
+  it("renders the default slot while allowed", () => {
+    const wrapper = mountWithPlugin(
+      `<Can rule="posts.edit"><button>Edit</button></Can>`,
+      ["posts.edit"]
+    );
+
+    expect(wrapper.find("button").exists()).toBe(true);
+  });
+
+  it("renders the fallback slot while denied", () => {
+    const wrapper = mountWithPlugin(`
+      <Can rule="posts.edit">
+        <button>Edit</button>
+        <template #fallback><a>Upgrade to Pro</a></template>
+      </Can>
+    `);
+
+    expect(wrapper.find("button").exists()).toBe(false);
+    expect(wrapper.find("a").text()).toBe("Upgrade to Pro");
+  });
+
+  it("inverts the result with <Cannot>", () => {
+    const wrapper = mountWithPlugin(
+      `<Cannot rule="billing.view"><p>Ask an admin</p></Cannot>`
+    );
+
+    expect(wrapper.find("p").exists()).toBe(true);
+  });
+
+  it("passes allowed and explain to the slot", () => {
+    const wrapper = mountWithPlugin(`
+      <Can :rule="['posts.edit', 'admin']" pass-through v-slot="{ allowed, explain }">
+        <span class="allowed">{{ allowed }}</span>
+        <span class="missing">{{ explain().missing.join(",") }}</span>
+      </Can>
+    `);
+
+    expect(wrapper.find(".allowed").text()).toBe("false");
+    expect(wrapper.find(".missing").text()).toBe("posts.edit,admin");
+  });
+
+  it("follows permission and rule changes", async () => {
+    const rule = ref("posts.edit");
+    const wrapper = mountWithPlugin(
+      `<Can :rule="rule"><button>Go</button></Can>`,
+      [],
+      () => ({ rule })
+    );
+    expect(wrapper.find("button").exists()).toBe(false);
+
+    setPermissions(["posts.edit"]);
+    await flushPromises();
+    expect(wrapper.find("button").exists()).toBe(true);
+
+    rule.value = "posts.delete";
+    await flushPromises();
+    expect(wrapper.find("button").exists()).toBe(false);
+  });
+
+  it("settles async rules after the first render", async () => {
+    registerAsyncChecker("feature:", async (key) => key === "beta");
+    const wrapper = mountWithPlugin(
+      `<Can rule="feature:beta"><span>Beta</span></Can>`
+    );
+    await flushPromises();
+
+    expect(wrapper.find("span").exists()).toBe(true);
+  });
+
+  it("resolves while fetchPermissions is pending", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    let resolve!: (permissions: string[]) => void;
+    const fetchPermissions = () =>
+      new Promise<string[]>((r) => (resolve = r));
+    const wrapper = mount(
+      { template: `<Can rule="posts.edit"><button>Edit</button></Can>` },
+      {
+        global: {
+          plugins: [[PermissionPlugin, { fetchPermissions, persist: false }]],
+        },
+      }
+    );
+
+    resolve(["posts.edit"]);
+    await flushPromises();
+    expect(wrapper.find("button").exists()).toBe(true);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("is usable without the plugin", () => {
+    configurePermission(["posts.edit"]);
+    const wrapper = mount(Can, {
+      props: { rule: "posts.edit" },
+      slots: { default: "<b>Edit</b>" },
+    });
+
+    expect(wrapper.html()).toContain("<b>Edit</b>");
+  });
+});
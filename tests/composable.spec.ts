@@ -2,11 +2,18 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { usePermission } from "../src/composables/usePermission";
 import { clearPermissionCache } from "../src/core/cache";
 import { configurePermission } from "../src/core/config";
+import { createPermissionInstance } from "../src/core/instance";
 import {
   clearPermissionsFromStorage,
   savePermissionsToStorage,
+  STORAGE_KEY,
 } from "../src/utils/storage";
 
+// The default instance is configured before every test; storage only
+// fills an instance that never was
+const unconfiguredInstance = () =>
+  createPermissionInstance({ storageKey: STORAGE_KEY });
+
 describe("usePermission Composable", () => {
   beforeEach(() => {
     clearPermissionCache();
@@ -40,10 +47,17 @@ describe("usePermission Composable", () => {
       const storedPerms = ["stored.perm1", "stored.perm2"];
       savePermissionsToStorage(storedPerms);
 
-      const { permissions } = usePermission();
+      const { permissions } = usePermission(unconfiguredInstance());
       expect(permissions.value).toEqual(storedPerms);
     });
 
+    it("doesn't read storage once permissions were configured", () => {
+      savePermissionsToStorage(["stored.perm1"]);
+
+      const { permissions } = usePermission();
+      expect(permissions.value).toEqual([]);
+    });
+
     it("initializes as empty array when nothing configured", () => {
       const { permissions } = usePermission();
       expect(permissions.value).toEqual([]);
@@ -200,6 +214,19 @@ describe("usePermission Composable", () => {
       const allowed = canSync("*");
       expect(allowed).toBe(true);
     });
+
+    it("evaluates nested rule groups", () => {
+      const { canSync } = usePermission();
+
+      const allowed = canSync({
+        mode: "or",
+        permissions: [
+          { mode: "and", permissions: ["editor", "publisher"] },
+          { mode: "and", permissions: ["moderator", "viewer"] },
+        ],
+      });
+      expect(allowed).toBe(true);
+    });
   });
 
   describe("refresh() method", () => {
@@ -225,7 +252,7 @@ describe("usePermission Composable", () => {
       const storedPerms = ["from.storage"];
       savePermissionsToStorage(storedPerms);
 
-      const { permissions, refresh } = usePermission();
+      const { permissions, refresh } = usePermission(unconfiguredInstance());
       refresh();
 
       expect(permissions.value).toEqual(storedPerms);
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { getDeniedPermissions, splitGrants } from "../src/core/deny";
+import {
+  checkPermissionSync,
+  explainPermission,
+  hasPermission,
+} from "../src/core/evaluator";
+import { configurePermission } from "../src/core/config";
+import { clearPermissionCache } from "../src/core/cache";
+import { clearRoles, defineRoles } from "../src/core/roles";
+import { clearPolicies, definePolicy } from "../src/core/policies";
+import { usePermission } from "../src/composables/usePermission";
+import type { PermissionValue } from "../src/types";
+
+describe("Explicit Denies (deny.ts)", () => {
+  beforeEach(() => {
+    clearPermissionCache();
+    configurePermission([
+      "posts.*",
+      "!posts.delete",
+      "users.view",
+      "reports:3",
+    ]);
+  });
+
+  afterEach(() => {
+    clearRoles();
+    clearPolicies();
+  });
+
+  it("splits allow and deny entries", () => {
+    expect(splitGrants(["a", "!b", "!", "c"])).toEqual({
+      allow: ["a", "!", "c"],
+      deny: ["b"],
+    });
+  });
+
+  it("denies override wildcard grants", async () => {
+    expect(await hasPermission("posts.edit")).toBe(true);
+    expect(await hasPermission("posts.delete")).toBe(false);
+    expect(checkPermissionSync("posts.delete")).toBe(false);
+  });
+
+  it("denies win in every mode", async () => {
+    configurePermission([
+      "posts.view",
+      "posts.delete",
+      "!posts.delete",
+      "reports:3",
+      "!reports:3",
+    ]);
+
+    const rules: PermissionValue[] = [
+      "posts.delete",
+      { mode: "and", permissions: ["posts.view", "posts.delete"] },
+      { mode: "or", permissions: ["posts.delete"] },
+      { mode: "startWith", permissions: ["posts.del"] },
+      { mode: "endWith", permissions: [".delete"] },
+      { mode: "regex", permissions: ["delete$"] },
+      { mode: "wildcard", permissions: ["*.delete"] },
+      { mode: "level", permissions: ["reports:1"] },
+      "reports:>=1",
+    ];
+
+    for (const rule of rules) {
+      expect(await hasPermission(rule), JSON.stringify(rule)).toBe(false);
+      expect(checkPermissionSync(rule), JSON.stringify(rule)).toBe(false);
+    }
+
+    expect(
+      await hasPermission({ mode: "not", permissions: ["posts.delete"] })
+    ).toBe(true);
+    expect(await hasPermission(["posts.delete", "posts.view"])).toBe(true);
+  });
+
+  it("supports wildcard denies", async () => {
+    configurePermission(["*", "!billing.**"]);
+
+    expect(await hasPermission("users.delete")).toBe(true);
+    expect(await hasPermission("billing.invoices.view")).toBe(false);
+    expect(await hasPermission("posts.delete && !billing.refund")).toBe(true);
+  });
+
+  it("denies from roles override grants from other roles", async () => {
+    defineRoles({
+      editor: ["posts.*"],
+      intern: ["posts.view", "!posts.publish"],
+    });
+    configurePermission(["editor", "intern"]);
+
+    expect(await hasPermission("posts.edit")).toBe(true);
+    expect(await hasPermission("posts.publish")).toBe(false);
+  });
+
+  it("denies an ability even when its policy allows it", async () => {
+    definePolicy("posts.delete", () => true);
+
+    expect(await hasPermission({ ability: "posts.delete" })).toBe(false);
+    expect(checkPermissionSync({ ability: "posts.delete" })).toBe(false);
+  });
+
+  it("explains explicit denies", () => {
+    const trace = explainPermission({
+      mode: "and",
+      permissions: ["posts.edit", "posts.delete"],
+    });
+
+    expect(trace.result).toBe(false);
+    expect(trace.missing).toEqual(["posts.delete"]);
+    expect(trace.children?.[1].reason).toBe("Explicitly denied");
+    expect(explainPermission("posts.delete").reason).toBe("Explicitly denied");
+  });
+
+  it("reports the effective deny set", () => {
+    defineRoles({ intern: ["!posts.publish"] });
+
+    expect(getDeniedPermissions()).toEqual(["posts.delete"]);
+    expect(getDeniedPermissions(["intern", "!users.delete"])).toEqual([
+      "users.delete",
+      "posts.publish",
+    ]);
+  });
+
+  describe("usePermission", () => {
+    it("exposes the deny set and honours it", async () => {
+      const { denied, can, canSync, hasAny, setPermissions } = usePermission();
+
+      expect(denied.value).toEqual(["posts.delete"]);
+      expect(await can("posts.delete")).toBe(false);
+      expect(canSync("posts.edit")).toBe(true);
+      expect(await hasAny(["posts.delete", "users.delete"])).toBe(false);
+
+      setPermissions(["posts.*"]);
+      expect(denied.value).toEqual([]);
+      expect(canSync("posts.delete")).toBe(true);
+    });
+  });
+});
@@ -1,9 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { mount } from "@vue/test-utils";
+import { flushPromises, mount } from "@vue/test-utils";
 import { createApp, ref } from "vue";
 import { vPermission } from "../src/directives/v-permission";
-import PermissionPlugin from "../src/plugin";
-import { configurePermission } from "../src/core/config";
+import PermissionPlugin, { createPermissions } from "../src/plugin";
+import { configurePermission, setPermissions } from "../src/core/config";
 import { clearPermissionCache } from "../src/core/cache";
 
 describe("v-permission Directive", () => {
@@ -104,6 +104,27 @@ describe("v-permission Directive", () => {
       expect((wrapper.element as any).parentNode).toBeNull();
     });
 
+    it("evaluates expression strings", async () => {
+      const wrapper = mount(
+        {
+          template: `
+            <div>
+              <button v-permission="'user.view && !banned'">Allowed</button>
+              <button v-permission="'user.view && (admin || banned)'">Denied</button>
+            </div>
+          `,
+        },
+        {
+          global: {
+            plugins: [[PermissionPlugin, { permissions: ["user.view"] }]],
+          },
+        }
+      );
+
+      expect(wrapper.html()).toContain("Allowed");
+      expect(wrapper.html()).not.toContain("Denied");
+    });
+
     it("hides element with v-permission:show when permission missing", async () => {
       const wrapper = mount(
         {
@@ -547,4 +568,91 @@ describe("v-permission Directive", () => {
       expect(wrapper.find("div").element.style.display).toBe("flex");
     });
   });
+
+  describe("Permission changes without re-render", () => {
+    const mountStatic = (template: string, permissions = ["allowed"]) =>
+      mount(
+        { template: `<div>${template}</div>` },
+        {
+          global: {
+            plugins: [[PermissionPlugin, { permissions, persist: false }]],
+          },
+        }
+      );
+
+    it("removes and restores the element", async () => {
+      const wrapper = mountStatic(
+        `<button v-permission="'allowed'">Edit</button>`
+      );
+      expect(wrapper.find("button").exists()).toBe(true);
+
+      setPermissions([]);
+      await flushPromises();
+      expect(wrapper.find("button").exists()).toBe(false);
+
+      setPermissions(["allowed"]);
+      await flushPromises();
+      expect(wrapper.find("button").exists()).toBe(true);
+    });
+
+    it("hides and shows with the show modifier", async () => {
+      const wrapper = mountStatic(
+        `<span v-permission:show="'allowed'" style="display: inline">Hi</span>`
+      );
+
+      setPermissions([]);
+      await flushPromises();
+      expect(wrapper.find("span").element.style.display).toBe("none");
+
+      setPermissions(["allowed"]);
+      await flushPromises();
+      expect(wrapper.find("span").element.style.display).toBe("inline");
+    });
+
+    it("leaves .once elements alone", async () => {
+      const wrapper = mountStatic(
+        `<button v-permission.once="'allowed'">Edit</button>`
+      );
+
+      setPermissions([]);
+      await flushPromises();
+      expect(wrapper.find("button").exists()).toBe(true);
+    });
+
+    it("follows actual changes with .lazy", async () => {
+      const wrapper = mountStatic(
+        `<button v-permission.lazy="'allowed'">Edit</button>`
+      );
+
+      setPermissions(["other"]);
+      await flushPromises();
+      expect(wrapper.find("button").exists()).toBe(false);
+    });
+
+    it("unsubscribes when unmounted", async () => {
+      const permissions = createPermissions({
+        permissions: ["allowed"],
+        persist: false,
+      });
+      const unsubscribe = vi.fn();
+      const subscribe = permissions.onPermissionsChanged;
+      vi.spyOn(permissions, "onPermissionsChanged").mockImplementation(
+        (listener) => {
+          const stop = subscribe(listener);
+          return () => {
+            unsubscribe();
+            stop();
+          };
+        }
+      );
+      const wrapper = mount(
+        { template: `<div><button v-permission="'allowed'">Edit</button></div>` },
+        { global: { plugins: [permissions] } }
+      );
+      await flushPromises();
+
+      wrapper.unmount();
+      expect(unsubscribe).toHaveBeenCalledTimes(1);
+    });
+  });
 });
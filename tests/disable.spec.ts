@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from "vitest";
+import { flushPromises } from "@vue/test-utils";
+import { ref } from "vue";
+import { setPermissions } from "../src/core/config";
+import { mountWithPlugin, resetPermissionsPerTest } from "./testUtils";
+
+describe("v-permission disable mode", () => {
+  resetPermissionsPerTest();
+
+  it("disables a denied element instead of removing it", async () => {
+    const wrapper = mountWithPlugin(
+      `<button v-permission:disable="'posts.publish'">Publish</button>`
+    );
+    await flushPromises();
+
+    const button = wrapper.find("button");
+    expect(button.exists()).toBe(true);
+    expect(button.attributes("disabled")).toBe("");
+    expect(button.attributes("aria-disabled")).toBe("true");
+    expect(button.classes()).toContain("v-permission-disabled");
+  });
+
+  it("accepts disable as a modifier", async () => {
+    const wrapper = mountWithPlugin(
+      `<a v-permission.disable="'posts.publish'">Publish</a>`
+    );
+    await flushPromises();
+
+    expect(wrapper.find("a").attributes("aria-disabled")).toBe("true");
+  });
+
+  it("blocks click and keyboard handlers", async () => {
+    const onClick = vi.fn();
+    const onKeydown = vi.fn();
+    const wrapper = mountWithPlugin(
+      `<div
+        v-permission:disable="'posts.publish'"
+        class="card"
+        @click="onClick"
+        @keydown="onKeydown"
+      ><span>Publish</span></div>`,
+      [],
+      () => ({ onClick, onKeydown })
+    );
+    await flushPromises();
+
+    await wrapper.find(".card").trigger("click");
+    await wrapper.find("span").trigger("click");
+    await wrapper.find(".card").trigger("keydown", { key: "Enter" });
+    expect(onClick).not.toHaveBeenCalled();
+    expect(onKeydown).not.toHaveBeenCalled();
+  });
+
+  it("lets Tab move focus past a disabled element", async () => {
+    const wrapper = mountWithPlugin(
+      `<a href="/publish" v-permission:disable="'posts.publish'">Publish</a>`
+    );
+    await flushPromises();
+
+    const link = wrapper.find("a").element;
+    const tab = new KeyboardEvent("keydown", { key: "Tab", cancelable: true });
+    link.dispatchEvent(tab);
+    expect(tab.defaultPrevented).toBe(false);
+
+    const enter = new KeyboardEvent("keydown", {
+      key: "Enter",
+      cancelable: true,
+    });
+    link.dispatchEvent(enter);
+    expect(enter.defaultPrevented).toBe(true);
+  });
+
+  it("stays disabled when a re-render resets its attributes", async () => {
+    const saving = ref(true);
+    const active = ref(false);
+    const wrapper = mountWithPlugin(
+      `<button
+        :disabled="saving"
+        :class="{ active }"
+        v-permission:disable="'posts.publish'"
+      >Publish</button>`,
+      [],
+      () => ({ saving, active })
+    );
+    await flushPromises();
+
+    saving.value = false;
+    active.value = true;
+    await flushPromises();
+    const button = wrapper.find("button");
+    expect(button.attributes("disabled")).toBe("");
+    expect(button.attributes("aria-disabled")).toBe("true");
+    expect(button.classes()).toContain("v-permission-disabled");
+
+    setPermissions(["posts.publish"]);
+    await flushPromises();
+    expect(button.attributes("disabled")).toBeUndefined();
+    expect(button.classes()).toEqual(["active"]);
+  });
+
+  it("uses the configured class and title", async () => {
+    const wrapper = mountWithPlugin(
+      `<button v-permission:disable="'posts.publish'">Publish</button>`,
+      [],
+      undefined,
+      {
+        plugin: {
+          disable: { class: "is-locked", title: "Upgrade to publish" },
+        },
+      }
+    );
+    await flushPromises();
+
+    const button = wrapper.find("button");
+    expect(button.classes()).toEqual(["is-locked"]);
+    expect(button.attributes("title")).toBe("Upgrade to publish");
+  });
+
+  it("restores the original state once granted", async () => {
+    const onClick = vi.fn();
+    const wrapper = mountWithPlugin(
+      `<button
+        v-permission:disable="'posts.publish'"
+        class="btn"
+        title="Publish now"
+        aria-disabled="false"
+        @click="onClick"
+      >Publish</button>`,
+      [],
+      () => ({ onClick }),
+      { plugin: { disable: { title: "No access" } } }
+    );
+    await flushPromises();
+    expect(wrapper.find("button").attributes("title")).toBe("No access");
+
+    setPermissions(["posts.publish"]);
+    await flushPromises();
+
+    const button = wrapper.find("button");
+    expect(button.attributes("disabled")).toBeUndefined();
+    expect(button.attributes("aria-disabled")).toBe("false");
+    expect(button.attributes("title")).toBe("Publish now");
+    expect(button.classes()).toEqual(["btn"]);
+
+    await button.trigger("click");
+    expect(onClick).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps a disabled attribute the element already had", async () => {
+    const rule = ref("posts.publish");
+    const wrapper = mountWithPlugin(
+      `<button v-permission:disable="rule" disabled>Publish</button>`,
+      [],
+      () => ({ rule })
+    );
+    await flushPromises();
+
+    rule.value = "other";
+    setPermissions(["other"]);
+    await flushPromises();
+    expect(wrapper.find("button").attributes("disabled")).toBe("");
+    expect(wrapper.find("button").attributes("aria-disabled")).toBeUndefined();
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mount } from "@vue/test-utils";
+import {
+  getModeNames,
+  registerPermissionMode,
+  unregisterPermissionMode,
+} from "../src/core/engine";
+import {
+  checkPermissionSync,
+  explainPermission,
+  hasPermission,
+} from "../src/core/evaluator";
+import { configurePermission } from "../src/core/config";
+import { clearPermissionCache } from "../src/core/cache";
+import { usePermission } from "../src/composables/usePermission";
+import PermissionPlugin from "../src/plugin";
+import type { PermissionValue } from "../src/types";
+
+declare module "../src/types" {
+  interface PermissionModeRegistry {
+    exactlyOne: true;
+    atLeast: true;
+  }
+}
+
+describe("Rule Engine (engine.ts)", () => {
+  const granted = [
+    "user.view",
+    "user.edit",
+    "posts.*",
+    "admin.access",
+    "reports:3",
+  ];
+
+  beforeEach(() => {
+    clearPermissionCache();
+    configurePermission(granted);
+  });
+
+  it("registers the built-in modes", () => {
+    expect(getModeNames()).toEqual([
+      "and",
+      "or",
+      "not",
+      "startWith",
+      "endWith",
+      "regex",
+      "wildcard",
+      "level",
+    ]);
+  });
+
+  const rules: PermissionValue[] = [
+    "*",
+    "user.view",
+    "missing",
+    "posts.delete",
+    ["missing", "user.edit"],
+    ["missing", "other"],
+    { mode: "and", permissions: ["user.view", "user.edit"] },
+    { mode: "and", permissions: ["user.view", "missing"] },
+    { mode: "or", permissions: ["missing", "admin.access"] },
+    { mode: "not", permissions: ["banned"] },
+    { mode: "not", permissions: ["user.view"] },
+    { mode: "startWith", permissions: ["user."] },
+    { mode: "startWith", permissions: ["billing."] },
+    { mode: "endWith", permissions: [".access"] },
+    "reports:>=2",
+    "reports:4..5",
+    { mode: "level", permissions: ["reports:2"] },
+    { mode: "level", permissions: ["reports"], max: 2 },
+    { mode: "regex", permissions: ["^user\\.(view|edit)$"] },
+    { mode: "regex", permissions: ["[invalid("] },
+    { mode: "wildcard", permissions: ["*.view"] },
+    { mode: "wildcard", permissions: ["billing.**"] },
+    { mode: "invalid" as any, permissions: ["user.view"] },
+    { mode: "and", permissions: [] },
+    { mode: "not", permissions: ["*"] },
+    {
+      mode: "or",
+      permissions: [
+        { mode: "and", permissions: ["user.view", "missing"] },
+        { mode: "startWith", permissions: ["admin."] },
+      ],
+    },
+    "user.view && (missing || posts.publish) && !banned",
+    "user.view &&",
+  ];
+
+  it.each(rules.map((r) => [JSON.stringify(r), r]))(
+    "all entry points agree on %s",
+    async (_label, rule) => {
+      const { canSync } = usePermission();
+      const sync = checkPermissionSync(rule);
+
+      expect(await hasPermission(rule)).toBe(sync);
+      expect(canSync(rule)).toBe(sync);
+      expect(explainPermission(rule).result).toBe(sync);
+    }
+  );
+
+  describe("registerPermissionMode", () => {
+    beforeEach(() => {
+      registerPermissionMode("exactlyOne", {
+        combine: (results) => results.filter(Boolean).length === 1,
+        test: (entry, { isGranted }) => isGranted(entry),
+      });
+      // "reports:2" is satisfied by a granted "reports:N" with N >= 2
+      registerPermissionMode("atLeast", (entry, { granted }) => {
+        const [name, level] = entry.split(":");
+        return granted.some((u) => {
+          const [gName, gLevel] = u.split(":");
+          return gName === name && Number(gLevel) >= Number(level);
+        });
+      });
+      configurePermission(["user.view", "reports:3", "editor"]);
+    });
+
+    afterEach(() => {
+      unregisterPermissionMode("exactlyOne");
+      unregisterPermissionMode("atLeast");
+    });
+
+    it("adds the mode to the registry", () => {
+      expect(getModeNames()).toContain("exactlyOne");
+      expect(getModeNames()).toContain("atLeast");
+    });
+
+    it("supports custom combine functions", async () => {
+      const one = {
+        mode: "exactlyOne" as const,
+        permissions: ["editor", "admin"],
+      };
+      const two = {
+        mode: "exactlyOne" as const,
+        permissions: ["editor", "user.view"],
+      };
+
+      expect(await hasPermission(one)).toBe(true);
+      expect(checkPermissionSync(two)).toBe(false);
+    });
+
+    it("works in every entry point, including nested rules", async () => {
+      const rule: PermissionValue = {
+        mode: "and",
+        permissions: [
+          "user.view",
+          { mode: "atLeast", permissions: ["reports:2"] },
+        ],
+      };
+      const { canSync } = usePermission();
+
+      expect(await hasPermission(rule)).toBe(true);
+      expect(canSync({ mode: "atLeast", permissions: ["reports:4"] })).toBe(
+        false
+      );
+      expect(explainPermission(rule).result).toBe(true);
+    });
+
+    it("works in the directive", () => {
+      const wrapper = mount(
+        {
+          template: `
+            <div>
+              <p v-permission="{ mode: 'atLeast', permissions: ['reports:3'] }">Level 3</p>
+              <p v-permission="{ mode: 'atLeast', permissions: ['reports:5'] }">Level 5</p>
+            </div>
+          `,
+        },
+        {
+          global: {
+            plugins: [[PermissionPlugin, { permissions: ["reports:3"] }]],
+          },
+        }
+      );
+
+      expect(wrapper.html()).toContain("Level 3");
+      expect(wrapper.html()).not.toContain("Level 5");
+    });
+
+    it("clears results cached before the mode existed", async () => {
+      unregisterPermissionMode("exactlyOne");
+      const rule = { mode: "exactlyOne" as const, permissions: ["editor"] };
+      expect(await hasPermission(rule)).toBe(false);
+
+      registerPermissionMode("exactlyOne", (entry, { isGranted }) =>
+        isGranted(entry)
+      );
+      expect(await hasPermission(rule)).toBe(true);
+    });
+
+    it("rejects invalid registrations", () => {
+      expect(() => registerPermissionMode("and", () => true)).toThrow(
+        'Cannot override built-in mode "and"'
+      );
+      expect(() => registerPermissionMode("", () => true)).toThrow(TypeError);
+      expect(() => registerPermissionMode("broken", {} as any)).toThrow(
+        'Mode "broken" needs a test function'
+      );
+    });
+
+    it("never unregisters built-in modes", () => {
+      expect(unregisterPermissionMode("or")).toBe(false);
+      expect(getModeNames()).toContain("or");
+    });
+  });
+});
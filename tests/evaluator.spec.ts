@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import { hasPermission } from "../src/core/evaluator";
+import { checkPermissionSync, hasPermission } from "../src/core/evaluator";
 import { configurePermission } from "../src/core/config";
 import { clearPermissionCache } from "../src/core/cache";
 import type { PermissionValue } from "../src/types";
@@ -342,6 +342,75 @@ describe("Permission Evaluator (evaluator.ts)", () => {
     });
   });
 
+  describe("Nested Rules", () => {
+    beforeEach(() => {
+      configurePermission(["posts.edit", "posts.publish", "user.view"]);
+    });
+
+    const editAndPublishOrAdmin: PermissionValue = {
+      mode: "or",
+      permissions: [
+        { mode: "and", permissions: ["posts.edit", "posts.publish"] },
+        "admin",
+      ],
+    };
+
+    it("evaluates (a AND b) OR c", async () => {
+      expect(await hasPermission(editAndPublishOrAdmin)).toBe(true);
+      expect(checkPermissionSync(editAndPublishOrAdmin)).toBe(true);
+    });
+
+    it("denies when neither branch matches", async () => {
+      const perms = ["posts.edit"];
+      expect(await hasPermission(editAndPublishOrAdmin, perms)).toBe(false);
+      expect(checkPermissionSync(editAndPublishOrAdmin, perms)).toBe(false);
+    });
+
+    it("supports not groups wrapping nested rules", async () => {
+      const rule: PermissionValue = {
+        mode: "and",
+        permissions: [
+          "posts.edit",
+          {
+            mode: "not",
+            permissions: [{ mode: "or", permissions: ["banned", "suspended"] }],
+          },
+        ],
+      };
+      expect(await hasPermission(rule)).toBe(true);
+      expect(await hasPermission(rule, ["posts.edit", "banned"])).toBe(false);
+      expect(checkPermissionSync(rule, ["posts.edit", "suspended"])).toBe(false);
+    });
+
+    it("treats nested arrays as OR groups", async () => {
+      const rule: PermissionValue = {
+        mode: "and",
+        permissions: ["user.view", ["admin", "posts.publish"]],
+      };
+      expect(await hasPermission(rule)).toBe(true);
+      expect(checkPermissionSync(rule, ["user.view"])).toBe(false);
+    });
+
+    it("combines nested rules with pattern modes", async () => {
+      const rule: PermissionValue = {
+        mode: "startWith",
+        permissions: ["billing.", { mode: "and", permissions: ["user.view"] }],
+      };
+      expect(await hasPermission(rule)).toBe(true);
+      expect(checkPermissionSync(rule, ["billing.read"])).toBe(true);
+      expect(checkPermissionSync(rule, ["other"])).toBe(false);
+    });
+
+    it("denies rules nested beyond the max depth", async () => {
+      let rule: PermissionValue = "posts.edit";
+      for (let i = 0; i < 60; i++) {
+        rule = { mode: "and", permissions: [rule] };
+      }
+      expect(await hasPermission(rule)).toBe(false);
+      expect(checkPermissionSync(rule)).toBe(false);
+    });
+  });
+
   describe("Custom User Permissions", () => {
     it("allows passing custom permissions to hasPermission", async () => {
       configurePermission(["default.perm"]);
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { explainPermission } from "../src/core/evaluator";
+import { configurePermission } from "../src/core/config";
+import { clearPermissionCache } from "../src/core/cache";
+import { clearPolicies, definePolicy } from "../src/core/policies";
+import { usePermission } from "../src/composables/usePermission";
+import { createPermissionGuard } from "../src/guards/createGuard";
+import type { RouteLocationNormalized } from "vue-router";
+
+describe("explainPermission", () => {
+  beforeEach(() => {
+    clearPermissionCache();
+    configurePermission(["posts.edit", "reports.read", "user.view"]);
+  });
+
+  afterEach(() => {
+    clearPolicies();
+  });
+
+  it("explains single permissions", () => {
+    expect(explainPermission("posts.edit")).toEqual({
+      rule: "posts.edit",
+      result: true,
+      matched: ["posts.edit"],
+      missing: [],
+    });
+    expect(explainPermission("posts.delete")).toMatchObject({
+      result: false,
+      missing: ["posts.delete"],
+    });
+  });
+
+  it("pinpoints the failing sub-rule in nested groups", () => {
+    const trace = explainPermission({
+      mode: "or",
+      permissions: [
+        { mode: "and", permissions: ["posts.edit", "posts.publish"] },
+        "admin",
+      ],
+    });
+
+    expect(trace.result).toBe(false);
+    expect(trace.mode).toBe("or");
+    expect(trace.matched).toEqual(["posts.edit"]);
+    expect(trace.missing).toEqual(["posts.publish", "admin"]);
+    expect(trace.children?.[0]).toMatchObject({
+      mode: "and",
+      result: false,
+      missing: ["posts.publish"],
+    });
+    expect(trace.children?.[0].children?.[0].result).toBe(true);
+  });
+
+  it("explains not groups", () => {
+    const trace = explainPermission({ mode: "not", permissions: ["user.view"] });
+    expect(trace.result).toBe(false);
+    expect(trace.matched).toEqual(["user.view"]);
+  });
+
+  it("lists granted permissions matched by patterns", () => {
+    const trace = explainPermission({
+      mode: "startWith",
+      permissions: ["posts.", "billing."],
+    });
+    expect(trace.result).toBe(true);
+    expect(trace.matched).toEqual(["posts.edit"]);
+    expect(trace.missing).toEqual(["billing."]);
+  });
+
+  it("explains invalid input", () => {
+    expect(
+      explainPermission({ mode: "bogus" as any, permissions: ["a"] }).reason
+    ).toBe('Invalid permission mode: "bogus"');
+    expect(explainPermission({ mode: "and", permissions: [] }).reason).toBe(
+      "Permission array is empty or invalid"
+    );
+    expect(explainPermission("a &&").reason).toBe(
+      "Invalid permission expression"
+    );
+    expect(
+      explainPermission({ mode: "regex", permissions: ["[bad"] }).children?.[0]
+        .reason
+    ).toBe("Invalid or dangerous regex pattern");
+  });
+
+  it("explains expressions as their compiled tree", () => {
+    const trace = explainPermission("posts.edit && !user.view");
+    expect(trace.result).toBe(false);
+    expect(trace.children?.[1]).toMatchObject({ mode: "not", result: false });
+  });
+
+  it("explains universal access", () => {
+    expect(explainPermission("*")).toMatchObject({
+      result: true,
+      reason: "Universal access",
+    });
+  });
+
+  it("explains policy results", () => {
+    definePolicy("post.edit", () => false);
+    expect(explainPermission({ ability: "post.edit" })).toMatchObject({
+      result: false,
+      reason: 'Policy "post.edit" returned false',
+    });
+    expect(explainPermission({ ability: "reports.read" })).toMatchObject({
+      result: true,
+      matched: ["reports.read"],
+    });
+  });
+
+  it("uses explicitly passed permissions", () => {
+    expect(explainPermission("admin", ["admin"]).result).toBe(true);
+  });
+
+  describe("dev mode logging", () => {
+    let groupSpy: ReturnType<typeof vi.spyOn>;
+    let logSpy: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      configurePermission(["user.view"], { developmentMode: true });
+      groupSpy = vi
+        .spyOn(console, "groupCollapsed")
+        .mockImplementation(() => {});
+      logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      groupSpy.mockRestore();
+      logSpy.mockRestore();
+      configurePermission([]);
+    });
+
+    it("usePermission exposes explain and logs denials", async () => {
+      const { can, explain } = usePermission();
+
+      expect(explain("admin").missing).toEqual(["admin"]);
+      expect(await can("admin")).toBe(false);
+      expect(logSpy).toHaveBeenCalledWith(
+        "Denied because:",
+        expect.objectContaining({ missing: ["admin"] })
+      );
+    });
+
+    it("guards log the trace of a denied route", async () => {
+      const guard = createPermissionGuard({
+        getAuthState: () => ({ isAuthenticated: true }),
+      });
+      const to = {
+        path: "/admin",
+        meta: { checkPermission: true, permissions: "admin" },
+      } as unknown as RouteLocationNormalized;
+
+      await guard(to, to, vi.fn());
+
+      expect(logSpy).toHaveBeenCalledWith(
+        'Route "/admin" denied because:',
+        expect.objectContaining({ result: false, missing: ["admin"] })
+      );
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  isPermissionExpression,
+  parsePermissionExpression,
+  precompilePermission,
+} from "../src/core/expression";
+import { checkPermissionSync, hasPermission } from "../src/core/evaluator";
+import { configurePermission } from "../src/core/config";
+import { clearPermissionCache } from "../src/core/cache";
+import { usePermission } from "../src/composables/usePermission";
+
+describe("Permission Expressions (expression.ts)", () => {
+  beforeEach(() => {
+    clearPermissionCache();
+    configurePermission(["posts.edit", "posts.publish"]);
+  });
+
+  describe("isPermissionExpression", () => {
+    it("detects operators", () => {
+      expect(isPermissionExpression("a && b")).toBe(true);
+      expect(isPermissionExpression("a||b")).toBe(true);
+      expect(isPermissionExpression("!banned")).toBe(true);
+      expect(isPermissionExpression("(a)")).toBe(true);
+    });
+
+    it("treats plain permission names as literals", () => {
+      expect(isPermissionExpression("posts.edit")).toBe(false);
+      expect(isPermissionExpression("reports:read")).toBe(false);
+      expect(isPermissionExpression("*")).toBe(false);
+    });
+  });
+
+  describe("parsePermissionExpression", () => {
+    it("parses a single name", () => {
+      expect(parsePermissionExpression(" admin ")).toBe("admin");
+    });
+
+    it("respects precedence: ! over && over ||", () => {
+      expect(parsePermissionExpression("a || b && !c")).toEqual({
+        mode: "or",
+        permissions: [
+          "a",
+          {
+            mode: "and",
+            permissions: ["b", { mode: "not", permissions: ["c"] }],
+          },
+        ],
+      });
+    });
+
+    it("flattens chains of the same operator", () => {
+      expect(parsePermissionExpression("a && b && c")).toEqual({
+        mode: "and",
+        permissions: ["a", "b", "c"],
+      });
+    });
+
+    it("supports parentheses", () => {
+      expect(
+        parsePermissionExpression("posts.edit && (posts.publish || admin)")
+      ).toEqual({
+        mode: "and",
+        permissions: [
+          "posts.edit",
+          { mode: "or", permissions: ["posts.publish", "admin"] },
+        ],
+      });
+    });
+
+    it("supports quoted names", () => {
+      expect(parsePermissionExpression(`'a b' || "c"`)).toEqual({
+        mode: "or",
+        permissions: ["a b", "c"],
+      });
+    });
+
+    it.each([
+      ["a &", /Expected "&&" at position 2/],
+      ["a && ", /Unexpected end of expression at position 5/],
+      ["(a || b", /Unexpected end of expression/],
+      ["a || b)", /Unexpected "\)" at position 6/],
+      ["a b", /Unexpected "b" at position 2/],
+      ["'a", /Unterminated string at position 0/],
+    ])("reports syntax errors for %s", (expression, message) => {
+      expect(() => parsePermissionExpression(expression)).toThrow(SyntaxError);
+      expect(() => parsePermissionExpression(expression)).toThrow(message);
+    });
+
+    it("rejects excessive nesting", () => {
+      const expression = "(".repeat(60) + "a" + ")".repeat(60);
+      expect(() => parsePermissionExpression(expression)).toThrow(/max depth/);
+    });
+  });
+
+  describe("precompilePermission", () => {
+    it("returns rules without expressions unchanged", () => {
+      const rule = { mode: "and" as const, permissions: ["a", "b"] };
+      expect(precompilePermission(rule)).toBe(rule);
+      expect(precompilePermission("a")).toBe("a");
+    });
+
+    it("compiles expressions nested in logical groups", () => {
+      expect(
+        precompilePermission({ mode: "or", permissions: ["a && b", "c"] })
+      ).toEqual({
+        mode: "or",
+        permissions: [{ mode: "and", permissions: ["a", "b"] }, "c"],
+      });
+    });
+
+    it("leaves pattern mode entries untouched", () => {
+      const rule = { mode: "regex" as const, permissions: ["^(a|b)$"] };
+      expect(precompilePermission(rule)).toBe(rule);
+    });
+
+    it("reuses parsed expressions", () => {
+      expect(precompilePermission("a && b")).toBe(
+        precompilePermission("a && b")
+      );
+    });
+
+    it("returns null for invalid expressions", () => {
+      expect(precompilePermission("a &&")).toBeNull();
+      expect(precompilePermission(["ok", "a &&"])).toBeNull();
+    });
+
+    it("logs syntax errors in development mode", () => {
+      configurePermission([], { developmentMode: true });
+      const spy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+      precompilePermission("broken ||| rule");
+
+      expect(spy).toHaveBeenCalledWith(
+        "Invalid permission expression:",
+        expect.stringContaining("broken ||| rule")
+      );
+      spy.mockRestore();
+    });
+  });
+
+  describe("evaluation", () => {
+    const rule = "posts.edit && (posts.publish || admin) && !banned";
+
+    it("evaluates expressions with hasPermission", async () => {
+      expect(await hasPermission(rule)).toBe(true);
+      expect(await hasPermission(rule, ["posts.edit", "admin"])).toBe(true);
+      expect(await hasPermission(rule, ["posts.edit"])).toBe(false);
+      expect(
+        await hasPermission(rule, ["posts.edit", "admin", "banned"])
+      ).toBe(false);
+    });
+
+    it("evaluates expressions with checkPermissionSync", () => {
+      expect(checkPermissionSync(rule)).toBe(true);
+      expect(checkPermissionSync(rule, ["posts.publish"])).toBe(false);
+    });
+
+    it("denies invalid expressions", async () => {
+      expect(await hasPermission("posts.edit &&")).toBe(false);
+      expect(checkPermissionSync("posts.edit &&")).toBe(false);
+    });
+
+    it("works with usePermission", async () => {
+      const { can, canSync } = usePermission();
+      expect(await can("posts.edit && !banned")).toBe(true);
+      expect(canSync("!posts.edit")).toBe(false);
+    });
+  });
+});
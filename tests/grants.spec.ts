@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mount, flushPromises } from "@vue/test-utils";
+import {
+  clearGrantSchedule,
+  isGrantActive,
+  onGrantsChanged,
+  resolveGrants,
+} from "../src/core/grants";
+import {
+  configurePermission,
+  getCurrentPermissions,
+  getPermissionGrants,
+  getReactivePermissions,
+} from "../src/core/config";
+import { checkPermissionSync, hasPermission } from "../src/core/evaluator";
+import { clearPermissionCache } from "../src/core/cache";
+import { usePermission } from "../src/composables/usePermission";
+import PermissionPlugin from "../src/plugin";
+import type { PermissionGrant } from "../src/types";
+
+const NOW = new Date("2026-01-01T12:00:00Z").getTime();
+const HOUR = 60 * 60 * 1000;
+
+describe("Timed Grants (grants.ts)", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    clearPermissionCache();
+  });
+
+  afterEach(() => {
+    clearGrantSchedule();
+    configurePermission([]);
+    vi.useRealTimers();
+  });
+
+  describe("isGrantActive / resolveGrants", () => {
+    it("applies grants only inside their window", () => {
+      expect(isGrantActive("posts.view")).toBe(true);
+      expect(
+        isGrantActive({ permission: "a", expiresAt: NOW + HOUR })
+      ).toBe(true);
+      expect(isGrantActive({ permission: "a", expiresAt: NOW })).toBe(false);
+      expect(
+        isGrantActive({ permission: "a", notBefore: NOW + HOUR })
+      ).toBe(false);
+      expect(
+        isGrantActive({
+          permission: "a",
+          notBefore: new Date(NOW - HOUR),
+          expiresAt: "2026-01-02T00:00:00Z",
+        })
+      ).toBe(true);
+    });
+
+    it("never applies grants with unparseable dates", () => {
+      expect(
+        isGrantActive({ permission: "a", expiresAt: "not a date" })
+      ).toBe(false);
+    });
+
+    it("keeps the active permissions in order", () => {
+      expect(
+        resolveGrants([
+          "posts.view",
+          { permission: "posts.edit", expiresAt: NOW - 1 },
+          { permission: "posts.publish", expiresAt: NOW + HOUR },
+        ])
+      ).toEqual(["posts.view", "posts.publish"]);
+    });
+
+    it("re-resolves lists edited in place", () => {
+      const grants: PermissionGrant[] = [
+        "posts.view",
+        { permission: "posts.edit", expiresAt: NOW + HOUR },
+      ];
+      resolveGrants(grants);
+
+      grants[1] = { permission: "posts.delete", expiresAt: NOW + HOUR };
+      expect(resolveGrants(grants)).toEqual(["posts.view", "posts.delete"]);
+    });
+  });
+
+  describe("evaluation", () => {
+    it("ignores expired and not-yet-active grants", async () => {
+      configurePermission([
+        "posts.view",
+        { permission: "posts.edit", expiresAt: NOW - 1 },
+        { permission: "posts.delete", notBefore: NOW + HOUR },
+      ]);
+
+      expect(getCurrentPermissions()).toEqual(["posts.view"]);
+      expect(getPermissionGrants()).toHaveLength(3);
+      expect(await hasPermission("posts.edit")).toBe(false);
+      expect(checkPermissionSync("posts.delete")).toBe(false);
+    });
+
+    it("follows the clock without reconfiguring", async () => {
+      configurePermission([
+        { permission: "incidents.manage", expiresAt: NOW + HOUR },
+      ]);
+      expect(await hasPermission("incidents.manage")).toBe(true);
+
+      vi.advanceTimersByTime(HOUR);
+      expect(await hasPermission("incidents.manage")).toBe(false);
+    });
+
+    it("resolves timed grants in an explicit permission list", () => {
+      const granted = [{ permission: "admin", notBefore: NOW + HOUR }];
+      expect(checkPermissionSync("admin", granted)).toBe(false);
+
+      vi.setSystemTime(NOW + HOUR);
+      expect(checkPermissionSync("admin", granted)).toBe(true);
+    });
+  });
+
+  describe("scheduling", () => {
+    it("notifies listeners when a grant starts and expires", () => {
+      const listener = vi.fn();
+      const unsubscribe = onGrantsChanged(listener);
+
+      configurePermission([
+        {
+          permission: "reports.view",
+          notBefore: NOW + HOUR,
+          expiresAt: NOW + 2 * HOUR,
+        },
+      ]);
+      expect(getReactivePermissions().value).toEqual([]);
+
+      vi.advanceTimersByTime(HOUR);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(getReactivePermissions().value).toEqual(["reports.view"]);
+
+      vi.advanceTimersByTime(HOUR);
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(getReactivePermissions().value).toEqual([]);
+
+      unsubscribe();
+    });
+
+    it("re-computes usePermission when a grant expires", () => {
+      const { permissions, setPermissions } = usePermission();
+      setPermissions([
+        "posts.view",
+        { permission: "posts.edit", expiresAt: NOW + HOUR },
+      ]);
+      expect(permissions.value).toEqual(["posts.view", "posts.edit"]);
+
+      vi.advanceTimersByTime(HOUR);
+      expect(permissions.value).toEqual(["posts.view"]);
+    });
+  });
+
+  describe("v-permission", () => {
+    it("removes the element when its grant expires", async () => {
+      const wrapper = mount(
+        { template: `<div><button v-permission="'posts.edit'">Edit</button></div>` },
+        {
+          global: {
+            plugins: [
+              [
+                PermissionPlugin,
+                {
+                  permissions: [
+                    { permission: "posts.edit", expiresAt: NOW + HOUR },
+                  ],
+                  persist: false,
+                },
+              ],
+            ],
+          },
+        }
+      );
+      await flushPromises();
+      expect(wrapper.html()).toContain("Edit");
+
+      vi.advanceTimersByTime(HOUR);
+      await flushPromises();
+      expect(wrapper.html()).not.toContain("Edit");
+    });
+
+    it("shows the element once its grant becomes active", async () => {
+      const wrapper = mount(
+        { template: `<button v-permission.show="'posts.edit'">Edit</button>` },
+        {
+          global: {
+            plugins: [
+              [
+                PermissionPlugin,
+                {
+                  permissions: [
+                    { permission: "posts.edit", notBefore: NOW + HOUR },
+                  ],
+                  persist: false,
+                },
+              ],
+            ],
+          },
+        }
+      );
+      await flushPromises();
+      expect(wrapper.element.style.display).toBe("none");
+
+      vi.advanceTimersByTime(HOUR);
+      await flushPromises();
+      expect(wrapper.element.style.display).not.toBe("none");
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mount, flushPromises } from "@vue/test-utils";
+import { createApp, defineComponent, h, ref } from "vue";
+import type { RouteLocationNormalized } from "vue-router";
+import { createPermissions } from "../src/plugin";
+import {
+  configurePermission,
+  getCurrentPermissions,
+} from "../src/core/config";
+import { clearPermissionCache } from "../src/core/cache";
+import { hasPermission } from "../src/core/evaluator";
+import { clearPolicies, definePolicy } from "../src/core/policies";
+import { usePermission } from "../src/composables/usePermission";
+import { createPermissionGuard } from "../src/guards/createGuard";
+import { getPermissionsFromStorage } from "../src/utils/storage";
+
+describe("Isolated Instances (createPermissions)", () => {
+  beforeEach(() => {
+    clearPermissionCache();
+    configurePermission(["default.only"]);
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    clearPolicies();
+    localStorage.clear();
+  });
+
+  it("keeps its own permissions and cache", async () => {
+    const a = createPermissions({ permissions: ["posts.view"] });
+    const b = createPermissions({ permissions: ["posts.edit"] });
+    a.configurePermission(["posts.view"]);
+    b.configurePermission(["posts.edit"]);
+
+    expect(await a.hasPermission("posts.view")).toBe(true);
+    expect(await b.hasPermission("posts.view")).toBe(false);
+    expect(a.checkPermissionSync("default.only")).toBe(false);
+
+    // The default instance is untouched
+    expect(getCurrentPermissions()).toEqual(["default.only"]);
+    expect(await hasPermission("posts.view")).toBe(false);
+
+    expect(a.getCacheStats().size).toBe(1);
+    expect(b.getCacheStats().size).toBe(1);
+
+    a.dispose();
+    b.dispose();
+  });
+
+  it("uses its own user for policies", () => {
+    definePolicy("post.edit", (user, post) => user?.id === post.authorId);
+    const a = createPermissions();
+    a.setPermissionUser({ id: 1 });
+
+    const rule = { ability: "post.edit", subject: { authorId: 1 } };
+    expect(a.checkPermissionSync(rule)).toBe(true);
+    expect(createPermissions().checkPermissionSync(rule)).toBe(false);
+  });
+
+  it("is injected into v-permission and usePermission per app", async () => {
+    const Child = defineComponent({
+      setup() {
+        const { canSync, permissions } = usePermission();
+        return () =>
+          h("div", [
+            h("span", { class: "can" }, String(canSync("posts.edit"))),
+            h("span", { class: "list" }, permissions.value.join(",")),
+          ]);
+      },
+    });
+    const App = {
+      components: { Child },
+      template: `
+        <div>
+          <button v-permission="'posts.edit'">Edit</button>
+          <Child />
+        </div>
+      `,
+    };
+
+    const first = createPermissions({
+      permissions: ["posts.edit"],
+      persist: false,
+    });
+    const second = createPermissions({
+      permissions: ["posts.view"],
+      persist: false,
+    });
+    const a = mount(App, { global: { plugins: [first] } });
+    const b = mount(App, { global: { plugins: [second] } });
+    await flushPromises();
+
+    expect(a.html()).toContain("Edit");
+    expect(a.find(".can").text()).toBe("true");
+    expect(a.find(".list").text()).toBe("posts.edit");
+
+    expect(b.html()).not.toContain("<button");
+    expect(b.find(".can").text()).toBe("false");
+    expect(b.find(".list").text()).toBe("posts.view");
+  });
+
+  it("is provided while fetchPermissions is pending", async () => {
+    let resolve!: (permissions: string[]) => void;
+    const perms = createPermissions({
+      fetchPermissions: () => new Promise((r) => (resolve = r)),
+      persist: false,
+    });
+    let api!: ReturnType<typeof usePermission>;
+    const App = defineComponent({
+      setup() {
+        api = usePermission();
+        return { api };
+      },
+      template: `<div><button v-permission="'posts.edit'">Edit</button></div>`,
+    });
+
+    const wrapper = mount(App, { global: { plugins: [perms] } });
+    await flushPromises();
+    expect(wrapper.find("button").exists()).toBe(false);
+
+    resolve(["posts.edit"]);
+    await flushPromises();
+    expect(api.canSync("posts.edit")).toBe(true);
+    expect(wrapper.find("button").exists()).toBe(true);
+    expect(getCurrentPermissions()).toEqual(["default.only"]);
+  });
+
+  it("persists under its own storage key", async () => {
+    const perms = createPermissions({
+      permissions: ["posts.view"],
+      storageKey: "__admin_permissions__",
+    });
+    await perms.install(createApp({}));
+
+    expect(getPermissionsFromStorage("__admin_permissions__")).toEqual([
+      "posts.view",
+    ]);
+    expect(getPermissionsFromStorage()).toBeNull();
+  });
+
+  it("persists under a key of its own by default", async () => {
+    const first = createPermissions({ permissions: ["a"] });
+    const second = createPermissions({ permissions: ["b"] });
+    await first.install(createApp({}));
+    await second.install(createApp({}));
+
+    expect(first.storageKey).not.toBe(second.storageKey);
+    expect(getPermissionsFromStorage(first.storageKey)).toEqual(["a"]);
+    expect(getPermissionsFromStorage(second.storageKey)).toEqual(["b"]);
+    expect(getPermissionsFromStorage()).toBeNull();
+  });
+
+  it("rejects the shared roles and regex options", () => {
+    expect(() => createPermissions({ roles: { admin: ["*"] } })).toThrow(
+      /defineRoles\(\)/
+    );
+    expect(() => createPermissions({ regex: { maxLength: 10 } })).toThrow(
+      TypeError
+    );
+  });
+
+  it("is checked by guards given the instance", async () => {
+    const perms = createPermissions();
+    perms.configurePermission(["admin.panel"]);
+    const guard = createPermissionGuard({
+      instance: perms,
+      getAuthState: () => ({ isAuthenticated: true }),
+    });
+    const route = {
+      path: "/admin",
+      meta: { checkPermission: true, permissions: "admin.panel" },
+    } as unknown as RouteLocationNormalized;
+
+    const next = vi.fn();
+    await guard(route, route, next);
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it("logs while its own development mode is on", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "groupCollapsed").mockImplementation(() => {});
+    vi.spyOn(console, "groupEnd").mockImplementation(() => {});
+    const perms = createPermissions({
+      permissions: ["posts.view"],
+      developmentMode: true,
+      persist: false,
+    });
+    mount(
+      { template: `<div><button v-permission="'posts.edit'">Edit</button></div>` },
+      { global: { plugins: [perms] } }
+    );
+    await flushPromises();
+
+    expect(log).toHaveBeenCalledWith("Denied because:", expect.anything());
+    perms.checkPermissionSync({ mode: "bogus", permissions: ["a"] } as any);
+    expect(log).toHaveBeenCalledWith(
+      "[v-permission:core]",
+      expect.stringContaining("bogus"),
+      "Valid modes:",
+      expect.any(Array)
+    );
+
+    const guard = createPermissionGuard({
+      instance: perms,
+      getAuthState: () => ({ isAuthenticated: true }),
+    });
+    const route = {
+      path: "/admin",
+      meta: { checkPermission: true, permissions: "admin.panel" },
+    } as unknown as RouteLocationNormalized;
+    await guard(route, route, vi.fn());
+    expect(log).toHaveBeenCalledWith(
+      'Route "/admin" denied because:',
+      expect.anything()
+    );
+    vi.restoreAllMocks();
+  });
+
+  it("logs v-permission-else by its own development mode", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "groupCollapsed").mockImplementation(() => {});
+    vi.spyOn(console, "groupEnd").mockImplementation(() => {});
+    const perms = createPermissions({
+      permissions: ["posts.view"],
+      developmentMode: true,
+      persist: false,
+    });
+    const wrapper = mount(
+      {
+        template: `
+          <div>
+            <button v-permission="'posts.view'">View</button>
+            <a v-permission-else>Upgrade</a>
+          </div>
+        `,
+      },
+      { global: { plugins: [perms] } }
+    );
+
+    expect(wrapper.find("a").exists()).toBe(false);
+    expect(log).toHaveBeenCalledWith("Removed element from DOM");
+    vi.restoreAllMocks();
+  });
+
+  it("is disposed when its app unmounts", async () => {
+    const perms = createPermissions({ permissions: ["a"] });
+    const app = createApp({ render: () => h("div") });
+    await app.use(perms);
+    app.mount(document.createElement("div"));
+
+    const listener = vi.fn();
+    perms.onPermissionsChanged(listener);
+    app.unmount();
+
+    perms.setPermissions(["b"]);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("stops watching and clears its cache on dispose", async () => {
+    const perms = createPermissions();
+    const list = ref(["a"]);
+    perms.configurePermission(list);
+    await perms.hasPermission("a");
+
+    const listener = vi.fn();
+    perms.onPermissionsChanged(listener);
+    perms.dispose();
+
+    list.value = ["b"];
+    expect(listener).not.toHaveBeenCalled();
+    expect(perms.getCacheStats().size).toBe(0);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { RouteLocationNormalized } from "vue-router";
+import {
+  createLevelMatcher,
+  getGrantedLevel,
+  parseLevel,
+  parseLevelRequirement,
+} from "../src/core/levels";
+import {
+  checkPermissionSync,
+  explainPermission,
+  hasPermission,
+} from "../src/core/evaluator";
+import { configurePermission } from "../src/core/config";
+import { clearPermissionCache } from "../src/core/cache";
+import { usePermission } from "../src/composables/usePermission";
+import { createPermissionGuard } from "../src/guards/createGuard";
+
+describe("Permission Levels (levels.ts)", () => {
+  describe("parsing", () => {
+    it("parses granted name:level permissions", () => {
+      expect(parseLevel("reports:3")).toEqual({ name: "reports", level: 3 });
+      expect(parseLevel("org:billing:2")).toEqual({
+        name: "org:billing",
+        level: 2,
+      });
+      expect(parseLevel("reports")).toBeNull();
+      expect(parseLevel("reports:high")).toBeNull();
+      expect(parseLevel(":3")).toBeNull();
+    });
+
+    it("parses comparators and ranges", () => {
+      expect(parseLevelRequirement("reports:>=2")).toEqual({
+        name: "reports",
+        min: 2,
+      });
+      expect(parseLevelRequirement("reports:>2")).toEqual({
+        name: "reports",
+        min: 3,
+      });
+      expect(parseLevelRequirement("reports:<=3")).toEqual({
+        name: "reports",
+        max: 3,
+      });
+      expect(parseLevelRequirement("reports:<3")).toEqual({
+        name: "reports",
+        max: 2,
+      });
+      expect(parseLevelRequirement("reports:=2")).toEqual({
+        name: "reports",
+        min: 2,
+        max: 2,
+      });
+      expect(parseLevelRequirement("reports:2..4")).toEqual({
+        name: "reports",
+        min: 2,
+        max: 4,
+      });
+    });
+
+    it("rejects malformed requirements", () => {
+      expect(parseLevelRequirement("reports:4..2")).toBeNull();
+      expect(parseLevelRequirement("reports:<0")).toBeNull();
+      expect(parseLevelRequirement("reports:>=x")).toBeNull();
+    });
+
+    it("only treats bare levels as a minimum when asked to", () => {
+      expect(parseLevelRequirement("reports:2")).toBeNull();
+      expect(parseLevelRequirement("reports:2", true)).toEqual({
+        name: "reports",
+        min: 2,
+      });
+    });
+
+    it("uses the highest granted level", () => {
+      expect(getGrantedLevel(["reports:1", "reports:3", "x:9"], "reports")).toBe(
+        3
+      );
+      expect(getGrantedLevel(["reports"], "reports")).toBeNull();
+    });
+
+    it("matches comparator strings against the granted list", () => {
+      const matches = createLevelMatcher(["reports:3"]);
+      expect(matches("reports:>=2")).toBe(true);
+      expect(matches("reports:<3")).toBe(false);
+      expect(matches("reports:3")).toBe(false);
+      expect(matches("audit:>=0")).toBe(false);
+    });
+  });
+
+  describe("evaluator integration", () => {
+    beforeEach(() => {
+      clearPermissionCache();
+      configurePermission(["reports:3", "billing:1", "posts.view"]);
+    });
+
+    it("accepts comparator strings anywhere a permission is allowed", async () => {
+      expect(await hasPermission("reports:>=2")).toBe(true);
+      expect(await hasPermission("reports:>=4")).toBe(false);
+      expect(await hasPermission(["reports:>=4", "billing:1..2"])).toBe(true);
+      expect(await hasPermission("reports:>=2 && !billing:>=2")).toBe(true);
+      expect(checkPermissionSync("reports:<=2")).toBe(false);
+    });
+
+    it("keeps exact matching for bare levels outside level mode", async () => {
+      expect(await hasPermission("reports:3")).toBe(true);
+      expect(await hasPermission("reports:2")).toBe(false);
+    });
+
+    it("treats bare levels as a minimum in level mode", async () => {
+      expect(
+        await hasPermission({ mode: "level", permissions: ["reports:2"] })
+      ).toBe(true);
+      expect(
+        await hasPermission({
+          mode: "level",
+          permissions: ["reports:2", "billing:2"],
+        })
+      ).toBe(false);
+    });
+
+    it("applies the group's min and max to bare names", async () => {
+      expect(
+        await hasPermission({
+          mode: "level",
+          permissions: ["reports", "billing"],
+          min: 1,
+          max: 3,
+        })
+      ).toBe(true);
+      expect(
+        checkPermissionSync({ mode: "level", permissions: ["reports"], max: 2 })
+      ).toBe(false);
+      expect(
+        checkPermissionSync({ mode: "level", permissions: ["audit"] })
+      ).toBe(false);
+    });
+
+    it("reports the matched levels in explain traces", () => {
+      const trace = explainPermission({
+        mode: "level",
+        permissions: ["reports:2", "billing:>=2"],
+      });
+      expect(trace.result).toBe(false);
+      expect(trace.matched).toEqual(["reports:3"]);
+      expect(trace.missing).toEqual(["billing:>=2"]);
+    });
+  });
+
+  describe("usePermission", () => {
+    beforeEach(() => {
+      clearPermissionCache();
+      configurePermission(["reports:3", "billing:1"]);
+    });
+
+    it("supports comparators in hasAll and hasAny", async () => {
+      const { hasAll, hasAny } = usePermission();
+
+      expect(await hasAll(["reports:>=2", "billing:1..2"])).toBe(true);
+      expect(await hasAll(["reports:>=2", "billing:>=2"])).toBe(false);
+      expect(await hasAny(["reports:>=5", "billing:<=1"])).toBe(true);
+    });
+  });
+
+  describe("route guards", () => {
+    const route = (meta: Record<string, any>) =>
+      ({ path: "/reports", meta } as unknown as RouteLocationNormalized);
+
+    it("checks level rules from route meta", async () => {
+      const guard = createPermissionGuard({
+        getAuthState: () => ({
+          isAuthenticated: true,
+          permissions: ["reports:2"],
+        }),
+      });
+
+      const allowed = vi.fn();
+      await guard(
+        route({
+          checkPermission: true,
+          permissions: { mode: "level", permissions: ["reports"], min: 2 },
+        }),
+        route({}),
+        allowed
+      );
+      expect(allowed).toHaveBeenCalledWith();
+
+      const denied = vi.fn();
+      await guard(
+        route({ checkPermission: true, permissions: "reports:>=3" }),
+        route({}),
+        denied
+      );
+      expect(denied).not.toHaveBeenCalledWith();
+    });
+  });
+});
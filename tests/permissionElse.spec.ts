@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from "vitest";
+import { flushPromises } from "@vue/test-utils";
+import { ref } from "vue";
+import { setPermissions } from "../src/core/config";
+import { mountWithPlugin, resetPermissionsPerTest } from "./testUtils";
+
+describe("v-permission-else", () => {
+  resetPermissionsPerTest();
+
+  it("shows the fallback while denied", async () => {
+    const wrapper = mountWithPlugin(`
+      <button v-permission="'reports.export'">Export</button>
+      <a v-permission-else href="/pricing">Upgrade to Pro</a>
+    `);
+    await flushPromises();
+
+    expect(wrapper.find("button").exists()).toBe(false);
+    expect(wrapper.find("a").text()).toBe("Upgrade to Pro");
+  });
+
+  it("removes the fallback while allowed", async () => {
+    const wrapper = mountWithPlugin(
+      `
+      <button v-permission="'reports.export'">Export</button>
+      <a v-permission-else href="/pricing">Upgrade to Pro</a>
+    `,
+      ["reports.export"]
+    );
+    await flushPromises();
+
+    expect(wrapper.find("button").exists()).toBe(true);
+    expect(wrapper.find("a").exists()).toBe(false);
+  });
+
+  it("swaps with the permission", async () => {
+    const wrapper = mountWithPlugin(`
+      <button v-permission="'reports.export'">Export</button>
+      <a v-permission-else href="/pricing">Upgrade to Pro</a>
+    `);
+    await flushPromises();
+
+    setPermissions(["reports.export"]);
+    await flushPromises();
+    expect(wrapper.find("button").exists()).toBe(true);
+    expect(wrapper.find("a").exists()).toBe(false);
+
+    setPermissions([]);
+    await flushPromises();
+    expect(wrapper.find("button").exists()).toBe(false);
+    expect(wrapper.find("a").exists()).toBe(true);
+    // The fallback takes the element's place
+    expect(wrapper.html().indexOf("<!--v-permission-->")).toBeLessThan(
+      wrapper.html().indexOf("<a")
+    );
+  });
+
+  it("follows a changing rule", async () => {
+    const rule = ref("reports.export");
+    const wrapper = mountWithPlugin(
+      `
+      <button v-permission="rule">Export</button>
+      <span v-permission-else>Locked</span>
+    `,
+      ["reports.view"],
+      () => ({ rule })
+    );
+    await flushPromises();
+    expect(wrapper.find("span").exists()).toBe(true);
+
+    rule.value = "reports.view";
+    await flushPromises();
+    expect(wrapper.find("button").exists()).toBe(true);
+    expect(wrapper.find("span").exists()).toBe(false);
+  });
+
+  it("hides instead of removing with .show", async () => {
+    const wrapper = mountWithPlugin(
+      `
+      <button v-permission="'reports.export'">Export</button>
+      <span v-permission-else.show>Locked</span>
+    `,
+      ["reports.export"]
+    );
+    await flushPromises();
+
+    expect(wrapper.find("span").element.style.display).toBe("none");
+  });
+
+  it("pairs with the show and disable modes", async () => {
+    const wrapper = mountWithPlugin(`
+      <button v-permission:disable="'reports.export'">Export</button>
+      <small v-permission-else>Upgrade to export</small>
+    `);
+    await flushPromises();
+
+    expect(wrapper.find("button").attributes("disabled")).toBe("");
+    expect(wrapper.find("small").exists()).toBe(true);
+  });
+
+  it("warns without a preceding v-permission", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const wrapper = mountWithPlugin(`
+      <button>Export</button>
+      <span v-permission-else>Locked</span>
+    `);
+
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("v-permission-else must directly follow")
+    );
+    expect(wrapper.find("span").exists()).toBe(true);
+    warn.mockRestore();
+  });
+});
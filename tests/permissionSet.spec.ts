@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { ref } from "vue";
+import { getPermissionSet } from "../src/core/permissionSet";
+import {
+  clearPermissionCache,
+  getCacheStats,
+  resetCacheStats,
+} from "../src/core/cache";
+import { configurePermission } from "../src/core/config";
+import { checkPermissionSync, hasPermission } from "../src/core/evaluator";
+import { clearRoles, defineRoles } from "../src/core/roles";
+import { resolveGrants } from "../src/core/grants";
+
+describe("Permission Sets (permissionSet.ts)", () => {
+  beforeEach(() => {
+    clearRoles();
+    clearPermissionCache();
+  });
+
+  it("indexes expanded grants without denied ones", () => {
+    defineRoles({ editor: ["posts.edit", "posts.delete"] });
+    const set = getPermissionSet(["editor", "posts.view", "!posts.delete"]);
+
+    expect(set.granted).toEqual(["editor", "posts.view", "posts.edit"]);
+    expect(set.index.has("posts.edit")).toBe(true);
+    expect(set.isDenied("posts.delete")).toBe(true);
+    expect(set.matchGrant("posts.view")).toBe(true);
+  });
+
+  it("reuses the set for the same list", () => {
+    const list = ["posts.view", "posts.edit"];
+    expect(getPermissionSet(list)).toBe(getPermissionSet(list));
+    expect(getPermissionSet(list).version).not.toBe(
+      getPermissionSet([...list]).version
+    );
+  });
+
+  it("rebuilds after the configuration changes", () => {
+    const list = ["posts.view"];
+    const before = getPermissionSet(list);
+
+    configurePermission(["other"]);
+    expect(getPermissionSet(list)).not.toBe(before);
+
+    const current = getPermissionSet(list);
+    clearPermissionCache();
+    expect(getPermissionSet(list)).not.toBe(current);
+  });
+
+  it("picks up roles defined after the set was built", () => {
+    const list = ["editor"];
+    expect(checkPermissionSync("posts.edit", list)).toBe(false);
+
+    defineRoles({ editor: ["posts.edit"] });
+    expect(checkPermissionSync("posts.edit", list)).toBe(true);
+  });
+
+  it("rebuilds when a list grows or shrinks in place", async () => {
+    const permissions = ref(["posts.view"]);
+    configurePermission(permissions);
+    expect(await hasPermission("posts.edit")).toBe(false);
+
+    permissions.value.push("posts.edit");
+    expect(await hasPermission("posts.edit")).toBe(true);
+
+    permissions.value.pop();
+    expect(await hasPermission("posts.edit")).toBe(false);
+  });
+
+  it("rebuilds when an entry is replaced in place", async () => {
+    const list = ["a"];
+    expect(checkPermissionSync("a", list)).toBe(true);
+
+    list[0] = "b";
+    expect(checkPermissionSync("a", list)).toBe(false);
+    expect(checkPermissionSync("b", list)).toBe(true);
+
+    // A configured Ref notifies the store of edits in place
+    const configured = ref(["posts.view"]);
+    configurePermission(configured);
+    expect(await hasPermission("posts.view")).toBe(true);
+
+    configured.value[0] = "posts.edit";
+    expect(checkPermissionSync("posts.view")).toBe(false);
+    expect(await hasPermission("posts.view")).toBe(false);
+    expect(await hasPermission("posts.edit")).toBe(true);
+  });
+
+  it("keys cached results by set version instead of the list", async () => {
+    const many = Array.from({ length: 5000 }, (_, i) => `perm.${i}`);
+    configurePermission(many);
+
+    expect(await hasPermission("perm.4999")).toBe(true);
+    expect(await hasPermission(["missing", "perm.1"])).toBe(true);
+    expect(await hasPermission("perm.5000")).toBe(false);
+
+    // Same content, different list: a separate set and separate results
+    configurePermission(many.slice(0, 10));
+    expect(await hasPermission("perm.4999")).toBe(false);
+  });
+
+  it("caches results for explicit lists by their contents", async () => {
+    resetCacheStats();
+    for (let i = 0; i < 5; i++) {
+      expect(await hasPermission("a", ["a", "b"])).toBe(true);
+    }
+    expect(getCacheStats()).toMatchObject({ hits: 4, misses: 1, size: 1 });
+  });
+
+  it("keeps resolved timed grants stable between transitions", () => {
+    const now = Date.now();
+    const grants = [
+      "posts.view",
+      { permission: "posts.edit", expiresAt: now + 60_000 },
+    ];
+
+    const first = resolveGrants(grants, now);
+    expect(resolveGrants(grants, now + 1000)).toBe(first);
+    expect(resolveGrants(grants, now + 60_000)).toEqual(["posts.view"]);
+  });
+});
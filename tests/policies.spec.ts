@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mount, flushPromises } from "@vue/test-utils";
+import { nextTick, ref } from "vue";
+import type { RouteLocationNormalized } from "vue-router";
+import {
+  clearPolicies,
+  definePolicy,
+  getPolicy,
+  removePolicy,
+} from "../src/core/policies";
+import { checkPermissionSync, hasPermission } from "../src/core/evaluator";
+import { configurePermission, setPermissionUser } from "../src/core/config";
+import { clearPermissionCache } from "../src/core/cache";
+import { usePermission } from "../src/composables/usePermission";
+import { createPermissionGuard } from "../src/guards/createGuard";
+import PermissionPlugin from "../src/plugin";
+
+interface Post {
+  id: number;
+  authorId: number;
+}
+
+const alice = { id: 1 };
+const ownPost: Post = { id: 10, authorId: 1 };
+const otherPost: Post = { id: 11, authorId: 2 };
+
+describe("Policies (policies.ts)", () => {
+  beforeEach(() => {
+    clearPermissionCache();
+    configurePermission(["posts.view"]);
+    setPermissionUser(alice);
+    definePolicy(
+      "post.edit",
+      (user, post: Post) => !!user && post?.authorId === user.id
+    );
+  });
+
+  afterEach(() => {
+    clearPolicies();
+    setPermissionUser(undefined);
+  });
+
+  describe("registry", () => {
+    it("registers and removes policies", () => {
+      expect(getPolicy("post.edit")).toBeTypeOf("function");
+      removePolicy("post.edit");
+      expect(getPolicy("post.edit")).toBeUndefined();
+    });
+
+    it("rejects non-function handlers", () => {
+      expect(() => definePolicy("x", "nope" as any)).toThrow(TypeError);
+    });
+  });
+
+  describe("evaluation", () => {
+    it("runs the policy with the configured user and subject", async () => {
+      expect(
+        await hasPermission({ ability: "post.edit", subject: ownPost })
+      ).toBe(true);
+      expect(
+        await hasPermission({ ability: "post.edit", subject: otherPost })
+      ).toBe(false);
+      expect(
+        checkPermissionSync({ ability: "post.edit", subject: ownPost })
+      ).toBe(true);
+    });
+
+    it("prefers the user and subject from the context", async () => {
+      const rule = { ability: "post.edit" };
+      expect(
+        await hasPermission(rule, undefined, {
+          user: { id: 2 },
+          subject: otherPost,
+        })
+      ).toBe(true);
+      expect(checkPermissionSync(rule, undefined, { subject: ownPost })).toBe(
+        true
+      );
+    });
+
+    it("passes the granted permissions to the policy", async () => {
+      const handler = vi.fn(() => true);
+      definePolicy("report.view", handler);
+
+      await hasPermission({ ability: "report.view", subject: 1 }, ["a"], {
+        tenant: "acme",
+      });
+
+      expect(handler).toHaveBeenCalledWith(alice, 1, {
+        tenant: "acme",
+        permissions: ["a"],
+      });
+    });
+
+    it("falls back to a permission check without a policy", async () => {
+      expect(await hasPermission({ ability: "posts.view" })).toBe(true);
+      expect(checkPermissionSync({ ability: "posts.delete" })).toBe(false);
+    });
+
+    it("combines with other rules", async () => {
+      const rule = {
+        mode: "or" as const,
+        permissions: ["admin", { ability: "post.edit", subject: otherPost }],
+      };
+      expect(await hasPermission(rule)).toBe(false);
+      expect(await hasPermission(rule, ["admin"])).toBe(true);
+    });
+
+    it("awaits async policies in hasPermission only", async () => {
+      definePolicy("post.publish", async () => true);
+      const rule = { ability: "post.publish", subject: ownPost };
+
+      expect(await hasPermission(rule)).toBe(true);
+      expect(checkPermissionSync(rule)).toBe(false);
+    });
+
+    it("denies when a policy throws", async () => {
+      definePolicy("post.delete", () => {
+        throw new Error("boom");
+      });
+      const rule = { ability: "post.delete", subject: ownPost };
+
+      expect(await hasPermission(rule)).toBe(false);
+      expect(checkPermissionSync(rule)).toBe(false);
+    });
+
+    it("does not cache policy results", async () => {
+      const subject = { id: 12, authorId: 1 };
+      const rule = { ability: "post.edit", subject };
+
+      expect(await hasPermission(rule)).toBe(true);
+      subject.authorId = 2;
+      expect(await hasPermission(rule)).toBe(false);
+    });
+  });
+
+  describe("usePermission", () => {
+    it("accepts ability rules and a context", async () => {
+      const { can, canSync } = usePermission();
+
+      expect(await can({ ability: "post.edit", subject: ownPost })).toBe(true);
+      expect(canSync({ ability: "post.edit" }, { subject: otherPost })).toBe(
+        false
+      );
+    });
+  });
+
+  describe("v-permission", () => {
+    it("evaluates ability rules with subjects", async () => {
+      const wrapper = mount(
+        {
+          template: `
+            <div>
+              <button v-permission="{ ability: 'post.edit', subject: own }">Edit own</button>
+              <button v-permission="{ ability: 'post.edit', subject: other }">Edit other</button>
+            </div>
+          `,
+          data: () => ({ own: ownPost, other: otherPost }),
+        },
+        {
+          global: {
+            plugins: [[PermissionPlugin, { permissions: [], user: alice }]],
+          },
+        }
+      );
+
+      expect(wrapper.html()).toContain("Edit own");
+      expect(wrapper.html()).not.toContain("Edit other");
+    });
+
+    it("reveals elements once an async policy resolves", async () => {
+      definePolicy("post.publish", async () => true);
+      const wrapper = mount(
+        {
+          template: `<div><button v-permission="{ ability: 'post.publish' }">Publish</button></div>`,
+        },
+        { global: { plugins: [[PermissionPlugin, { permissions: [] }]] } }
+      );
+
+      expect(wrapper.html()).not.toContain("Publish");
+      await flushPromises();
+      expect(wrapper.html()).toContain("Publish");
+    });
+
+    it("keeps async policy results across host re-renders", async () => {
+      definePolicy("post.publish", async () => true);
+      const count = ref(0);
+      const wrapper = mount(
+        {
+          template: `
+            <div>
+              <span>{{ count }}</span>
+              <button v-permission="{ ability: 'post.publish' }">Publish</button>
+              <a v-permission:disable="{ ability: 'post.publish' }">Share</a>
+            </div>
+          `,
+          setup: () => ({ count }),
+        },
+        { global: { plugins: [[PermissionPlugin, { permissions: [] }]] } }
+      );
+      await flushPromises();
+
+      count.value++;
+      await nextTick();
+      expect(wrapper.find("span").text()).toBe("1");
+      expect(wrapper.html()).toContain("Publish");
+      expect(wrapper.find("a").attributes("disabled")).toBeUndefined();
+    });
+  });
+
+  describe("route guards", () => {
+    const route = (meta: Record<string, any>) =>
+      ({
+        path: "/posts/10/edit",
+        params: { id: "10" },
+        meta,
+      } as unknown as RouteLocationNormalized);
+
+    it("runs policies with the auth user and target route", async () => {
+      definePolicy(
+        "post.edit.route",
+        (user, _subject, context) =>
+          user.id === 1 &&
+          (context.route as RouteLocationNormalized).params.id === "10"
+      );
+      const guard = createPermissionGuard({
+        getAuthState: () => ({ isAuthenticated: true, user: { id: 1 } }),
+      });
+      const next = vi.fn();
+
+      await guard(
+        route({
+          checkPermission: true,
+          permissions: { ability: "post.edit.route" },
+        }),
+        route({}),
+        next
+      );
+
+      expect(next).toHaveBeenCalledWith();
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mount } from "@vue/test-utils";
+import {
+  analyzeRegexPattern,
+  compileRegex,
+  configureRegex,
+  validateRegex,
+} from "../src/core/regex";
+import {
+  checkPermissionSync,
+  explainPermission,
+  hasPermission,
+} from "../src/core/evaluator";
+import { configurePermission } from "../src/core/config";
+import { clearPermissionCache } from "../src/core/cache";
+import PermissionPlugin from "../src/plugin";
+
+describe("Safe Regex (regex.ts)", () => {
+  afterEach(() => {
+    configureRegex();
+  });
+
+  describe("analyzeRegexPattern", () => {
+    it("accepts ordinary permission patterns", () => {
+      expect(analyzeRegexPattern("^user\\..*")).toBeNull();
+      expect(analyzeRegexPattern(".*\\.(view|edit).*")).toBeNull();
+      expect(analyzeRegexPattern("^(?:posts|pages)\\.[a-z]+$")).toBeNull();
+      expect(analyzeRegexPattern("(a+)?b")).toBeNull();
+      expect(analyzeRegexPattern("[(+*)]+")).toBeNull();
+    });
+
+    it("rejects nested quantifiers", () => {
+      for (const pattern of [
+        "(a+)+b",
+        "(a*)*",
+        "((ab)*c)+",
+        "(\\w+\\.)*x",
+        "(?:a+){2,}",
+        "(a+)+?",
+      ]) {
+        expect(analyzeRegexPattern(pattern), pattern).toBe(
+          "Regex pattern has nested quantifiers"
+        );
+      }
+    });
+
+    it("rejects quantified alternations", () => {
+      for (const pattern of [
+        "(a|aa)+$",
+        "(a|a)*b",
+        "(\\w|\\d)+x",
+        "(?:x(a|b)y){2,}",
+      ]) {
+        expect(analyzeRegexPattern(pattern), pattern).toBe(
+          "Regex pattern has a quantified alternation"
+        );
+      }
+      expect(analyzeRegexPattern("(view|edit)?")).toBeNull();
+      expect(analyzeRegexPattern("(view|edit){1}")).toBeNull();
+    });
+
+    it("treats bounded single repeats as safe", () => {
+      expect(analyzeRegexPattern("(a+){1}")).toBeNull();
+      expect(analyzeRegexPattern("(a+){0,1}")).toBeNull();
+    });
+
+    it("enforces the length and complexity budget", () => {
+      configureRegex({ maxLength: 10, maxComplexity: 2 });
+
+      expect(analyzeRegexPattern("a".repeat(11))).toBe(
+        "Regex pattern exceeds 10 characters"
+      );
+      expect(analyzeRegexPattern("(a|b|c)")).toBe(
+        "Regex pattern exceeds complexity budget (2)"
+      );
+      expect(analyzeRegexPattern("a|b")).toBeNull();
+    });
+  });
+
+  describe("compileRegex", () => {
+    it("reuses compiled patterns", () => {
+      expect(compileRegex("^a")).toBe(compileRegex("^a"));
+      expect(compileRegex("^a", { flags: "i" })).not.toBe(compileRegex("^a"));
+    });
+
+    it("evicts the least recently used pattern", () => {
+      configureRegex({ cacheSize: 2 });
+      const a = compileRegex("a");
+      compileRegex("b");
+      compileRegex("a");
+      compileRegex("c");
+
+      expect(compileRegex("a")).toBe(a);
+    });
+
+    it("compiles once per pattern", () => {
+      const spy = vi.spyOn(globalThis, "RegExp");
+      compileRegex("^once\\.");
+      compileRegex("^once\\.");
+      expect(spy).toHaveBeenCalledTimes(1);
+      spy.mockRestore();
+    });
+
+    it("rejects invalid syntax and unsupported flags", () => {
+      expect(compileRegex("[bad")).toBeNull();
+      expect(validateRegex("[bad")).toBe("Invalid or dangerous regex pattern");
+      expect(validateRegex("a", { flags: "g" })).toBe(
+        'Unsupported regex flags: "g"'
+      );
+    });
+  });
+
+  describe("regex mode", () => {
+    beforeEach(() => {
+      clearPermissionCache();
+      configurePermission(["Posts.Edit", "posts.view.all"]);
+    });
+
+    it("supports flags", async () => {
+      const rule = { mode: "regex" as const, permissions: ["^posts\\.edit$"] };
+      expect(await hasPermission(rule)).toBe(false);
+      expect(await hasPermission({ ...rule, flags: "i" })).toBe(true);
+    });
+
+    it("supports anchored matching", () => {
+      const rule = { mode: "regex" as const, permissions: ["posts\\.view"] };
+      expect(checkPermissionSync(rule)).toBe(true);
+      expect(checkPermissionSync({ ...rule, anchored: true })).toBe(false);
+      expect(
+        checkPermissionSync({
+          mode: "regex",
+          permissions: ["posts\\.view\\..+"],
+          anchored: true,
+        })
+      ).toBe(true);
+    });
+
+    it("denies catastrophic patterns with a reason", () => {
+      const rule = { mode: "regex" as const, permissions: ["(a+)+$"] };
+      expect(checkPermissionSync(rule)).toBe(false);
+      expect(explainPermission(rule).children?.[0].reason).toBe(
+        "Regex pattern has nested quantifiers"
+      );
+    });
+
+    it("denies overlapping alternations without running them", () => {
+      const rule = { mode: "regex" as const, permissions: ["^(a|aa)+$"] };
+      expect(checkPermissionSync(rule, ["a".repeat(40) + "!"])).toBe(false);
+      expect(explainPermission(rule).children?.[0].reason).toBe(
+        "Regex pattern has a quantified alternation"
+      );
+    });
+
+    it("applies the budget from PluginOptions", async () => {
+      mount(
+        { template: "<div />" },
+        {
+          global: {
+            plugins: [
+              [
+                PermissionPlugin,
+                {
+                  permissions: ["posts.view.all"],
+                  regex: { maxLength: 5 },
+                },
+              ],
+            ],
+          },
+        }
+      );
+
+      expect(
+        await hasPermission({ mode: "regex", permissions: ["^posts"] })
+      ).toBe(false);
+      expect(await hasPermission({ mode: "regex", permissions: ["^p"] })).toBe(
+        true
+      );
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createApp } from "vue";
+import {
+  clearRoles,
+  defineRoles,
+  expandRoles,
+  getRolePermissions,
+} from "../src/core/roles";
+import { checkPermissionSync, hasPermission } from "../src/core/evaluator";
+import { configurePermission } from "../src/core/config";
+import { clearPermissionCache } from "../src/core/cache";
+import { usePermission } from "../src/composables/usePermission";
+import PermissionPlugin from "../src/plugin";
+
+describe("Roles (roles.ts)", () => {
+  beforeEach(() => {
+    clearPermissionCache();
+    defineRoles({
+      viewer: ["posts.view"],
+      editor: { inherits: ["viewer"], permissions: ["posts.*"] },
+      billing: ["invoices.read"],
+      admin: { inherits: ["editor", "billing"], permissions: ["users.manage"] },
+    });
+  });
+
+  afterEach(() => {
+    clearRoles();
+  });
+
+  describe("defineRoles", () => {
+    it("resolves inherited permissions", () => {
+      expect(getRolePermissions("admin").sort()).toEqual([
+        "invoices.read",
+        "posts.*",
+        "posts.view",
+        "users.manage",
+      ]);
+    });
+
+    it("returns an empty list for unknown roles", () => {
+      expect(getRolePermissions("ghost")).toEqual([]);
+    });
+
+    it("detects circular inheritance", () => {
+      expect(() =>
+        defineRoles({
+          a: { inherits: ["b"] },
+          b: { inherits: ["c"] },
+          c: { inherits: ["a"] },
+        })
+      ).toThrow("Circular role inheritance: a -> b -> c -> a");
+    });
+
+    it("detects self inheritance", () => {
+      expect(() => defineRoles({ a: { inherits: ["a"] } })).toThrow(
+        "Circular role inheritance: a -> a"
+      );
+    });
+
+    it("rejects unknown parent roles", () => {
+      expect(() => defineRoles({ a: { inherits: ["missing"] } })).toThrow(
+        'Role "a" inherits from unknown role "missing"'
+      );
+    });
+
+    it("keeps the previous table when the new one is invalid", () => {
+      expect(() => defineRoles({ a: { inherits: ["a"] } })).toThrow();
+      expect(getRolePermissions("editor")).toContain("posts.*");
+    });
+  });
+
+  describe("expandRoles", () => {
+    it("adds role permissions and keeps the role names", () => {
+      expect(expandRoles(["editor", "extra"]).sort()).toEqual([
+        "editor",
+        "extra",
+        "posts.*",
+        "posts.view",
+      ]);
+    });
+
+    it("returns the same list when no roles are granted", () => {
+      const granted = ["a", "b"];
+      expect(expandRoles(granted)).toBe(granted);
+    });
+  });
+
+  describe("evaluator integration", () => {
+    it("grants role permissions, including wildcards", async () => {
+      configurePermission(["editor"]);
+      expect(await hasPermission("posts.delete")).toBe(true);
+      expect(await hasPermission("posts.view")).toBe(true);
+      expect(await hasPermission("users.manage")).toBe(false);
+      expect(checkPermissionSync("posts.publish")).toBe(true);
+    });
+
+    it("expands roles in explicitly passed permissions", async () => {
+      expect(await hasPermission("invoices.read", ["admin"])).toBe(true);
+      expect(checkPermissionSync("invoices.read", ["editor"])).toBe(false);
+    });
+
+    it("re-evaluates after roles are redefined", async () => {
+      configurePermission(["editor"]);
+      expect(await hasPermission("posts.delete")).toBe(true);
+
+      defineRoles({ editor: ["posts.view"] });
+      expect(await hasPermission("posts.delete")).toBe(false);
+    });
+  });
+
+  describe("usePermission().hasRole", () => {
+    it("checks direct and inherited roles", () => {
+      configurePermission(["admin"]);
+      const { hasRole } = usePermission();
+
+      expect(hasRole("admin")).toBe(true);
+      expect(hasRole("viewer")).toBe(true);
+      expect(hasRole("ghost")).toBe(false);
+    });
+
+    it("accepts a list of roles (any)", () => {
+      configurePermission(["billing"]);
+      const { hasRole } = usePermission();
+
+      expect(hasRole(["editor", "billing"])).toBe(true);
+      expect(hasRole(["editor", "viewer"])).toBe(false);
+    });
+  });
+
+  describe("PluginOptions.roles", () => {
+    it("defines roles on install", async () => {
+      clearRoles();
+      const app = createApp({});
+      app.use(PermissionPlugin, {
+        permissions: ["support"],
+        roles: { support: ["tickets.*"] },
+        persist: false,
+      });
+
+      expect(await hasPermission("tickets.close")).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mount, flushPromises } from "@vue/test-utils";
+import type { RouteLocationNormalized } from "vue-router";
+import {
+  configurePermission,
+  getCurrentPermissions,
+  getPermissionScope,
+  getPermissionScopes,
+  getReactivePermissions,
+  setPermissionScope,
+} from "../src/core/config";
+import {
+  checkPermissionSync,
+  explainPermission,
+  hasPermission,
+} from "../src/core/evaluator";
+import { clearPermissionCache } from "../src/core/cache";
+import { usePermission } from "../src/composables/usePermission";
+import { createPermissionGuard } from "../src/guards/createGuard";
+import PermissionPlugin from "../src/plugin";
+
+const scopes = {
+  "org:1": ["posts.*", "members.invite"],
+  "org:2": ["posts.view"],
+};
+
+describe("Scoped Permissions", () => {
+  beforeEach(() => {
+    clearPermissionCache();
+    configurePermission(scopes, { scope: "org:1" });
+  });
+
+  afterEach(() => {
+    setPermissionScope(null);
+    configurePermission([]);
+  });
+
+  describe("config", () => {
+    it("uses the active scope's permissions", () => {
+      expect(getPermissionScope()).toBe("org:1");
+      expect(getPermissionScopes()).toEqual(["org:1", "org:2"]);
+      expect(getCurrentPermissions()).toEqual(scopes["org:1"]);
+      expect(getCurrentPermissions("org:2")).toEqual(scopes["org:2"]);
+      expect(getCurrentPermissions("org:3")).toEqual([]);
+    });
+
+    it("switches the active scope", () => {
+      setPermissionScope("org:2");
+      expect(getCurrentPermissions()).toEqual(["posts.view"]);
+      expect(getReactivePermissions().value).toEqual(["posts.view"]);
+
+      setPermissionScope(null);
+      expect(getCurrentPermissions()).toEqual([]);
+    });
+
+    it("ignores scopes for a flat configuration", () => {
+      configurePermission(["admin"]);
+      expect(getCurrentPermissions("org:2")).toEqual(["admin"]);
+    });
+  });
+
+  describe("evaluation", () => {
+    it("checks the active scope by default", async () => {
+      expect(await hasPermission("posts.delete")).toBe(true);
+      setPermissionScope("org:2");
+      expect(await hasPermission("posts.delete")).toBe(false);
+      expect(checkPermissionSync("posts.view")).toBe(true);
+    });
+
+    it("accepts a scope in the options argument", async () => {
+      expect(await hasPermission("posts.delete", { scope: "org:2" })).toBe(
+        false
+      );
+      expect(checkPermissionSync("members.invite", { scope: "org:1" })).toBe(
+        true
+      );
+      expect(
+        explainPermission("members.invite", { scope: "org:2" }).missing
+      ).toEqual(["members.invite"]);
+    });
+
+    it("prefers an explicit permission list over the scope", async () => {
+      expect(
+        await hasPermission("admin", ["admin"], { scope: "org:2" })
+      ).toBe(true);
+    });
+  });
+
+  describe("usePermission", () => {
+    it("honours a scope in the context", async () => {
+      const { can, canSync } = usePermission();
+
+      expect(await can("posts.delete")).toBe(true);
+      expect(await can("posts.delete", { scope: "org:2" })).toBe(false);
+      expect(canSync("posts.view", { scope: "org:2" })).toBe(true);
+    });
+  });
+
+  describe("v-permission", () => {
+    it("checks the scope given with the rule", async () => {
+      const wrapper = mount(
+        {
+          template: `
+            <div>
+              <button v-permission="'members.invite'">Invite here</button>
+              <button v-permission="{ rule: 'members.invite', scope: other }">Invite there</button>
+              <button v-permission:show="{ rule: 'posts.view', scope: other }">View there</button>
+              <a v-permission:disable="{ rule: 'members.invite', scope: other }">Invite link</a>
+            </div>
+          `,
+          data: () => ({ other: "org:2" }),
+        },
+        {
+          global: {
+            plugins: [
+              [PermissionPlugin, { permissions: scopes, scope: "org:1" }],
+            ],
+          },
+        }
+      );
+      await flushPromises();
+
+      expect(wrapper.html()).toContain("Invite here");
+      expect(wrapper.html()).not.toContain("Invite there");
+      const view = wrapper.findAll("button").at(-1)!;
+      expect(view.text()).toBe("View there");
+      expect(view.element.style.display).not.toBe("none");
+      expect(wrapper.find("a").attributes("disabled")).toBeDefined();
+    });
+
+    it("keeps display args apart from scope names", async () => {
+      const wrapper = mount(
+        {
+          template: `<div><button v-permission="{ rule: 'posts.view', scope: 'show' }">View</button></div>`,
+        },
+        {
+          global: {
+            plugins: [
+              [PermissionPlugin, { permissions: scopes, scope: "org:1" }],
+            ],
+          },
+        }
+      );
+      await flushPromises();
+
+      // There is no "show" scope, so the rule is denied and removed
+      expect(wrapper.html()).not.toContain("View");
+    });
+  });
+
+  describe("route guards", () => {
+    const route = (meta: Record<string, any>, orgId = "2") =>
+      ({
+        path: `/orgs/${orgId}/members`,
+        params: { orgId },
+        meta,
+      } as unknown as RouteLocationNormalized);
+
+    const guard = createPermissionGuard({
+      getAuthState: () => ({ isAuthenticated: true }),
+    });
+
+    it("derives the scope from route params", async () => {
+      const meta = {
+        checkPermission: true,
+        permissions: "members.invite",
+        permissionScope: (to: RouteLocationNormalized) =>
+          `org:${to.params.orgId}`,
+      };
+
+      const denied = vi.fn();
+      await guard(route(meta, "2"), route({}), denied);
+      expect(denied).not.toHaveBeenCalledWith();
+
+      const allowed = vi.fn();
+      await guard(route(meta, "1"), route({}), allowed);
+      expect(allowed).toHaveBeenCalledWith();
+    });
+
+    it("accepts a fixed scope name", async () => {
+      const next = vi.fn();
+      await guard(
+        route({
+          checkPermission: true,
+          permissions: "posts.view",
+          permissionScope: "org:2",
+        }),
+        route({}),
+        next
+      );
+      expect(next).toHaveBeenCalledWith();
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { computed, ref } from "vue";
+import type { RouteLocationNormalized } from "vue-router";
+import {
+  configurePermission,
+  getCurrentPermissions,
+  getPermissionScopes,
+  getReactivePermissions,
+  setPermissionScope,
+  setPermissions,
+  watchPermissions,
+} from "../src/core/config";
+import { clearPermissionCache } from "../src/core/cache";
+import { usePermission } from "../src/composables/usePermission";
+import { createPermissionGuard } from "../src/guards/createGuard";
+import { savePermissionsToStorage } from "../src/utils/storage";
+
+describe("Reactive Permission Store", () => {
+  beforeEach(() => {
+    clearPermissionCache();
+    localStorage.clear();
+    configurePermission([]);
+  });
+
+  afterEach(() => {
+    setPermissionScope(null);
+    configurePermission([]);
+    localStorage.clear();
+  });
+
+  it("reflects a configured Ref, including in-place edits", () => {
+    const list = ref(["posts.view"]);
+    configurePermission(list);
+    const store = getReactivePermissions();
+    const size = computed(() => store.value.length);
+    const { permissions } = usePermission();
+    expect(store.value).toEqual(["posts.view"]);
+
+    list.value.push("posts.edit");
+    expect(store.value).toEqual(["posts.view", "posts.edit"]);
+    expect(size.value).toBe(2);
+
+    list.value[1] = "posts.delete";
+    expect(permissions.value).toEqual(["posts.view", "posts.delete"]);
+  });
+
+  it("is shared by every usePermission caller", () => {
+    const first = usePermission();
+    const second = usePermission();
+
+    first.setPermissions(["posts.edit"]);
+    expect(second.permissions.value).toEqual(["posts.edit"]);
+    expect(second.canSync("posts.edit")).toBe(true);
+    expect(getCurrentPermissions()).toEqual(["posts.edit"]);
+  });
+
+  it("is seen by guards after setPermissions", async () => {
+    usePermission().setPermissions(["admin.panel"]);
+    const guard = createPermissionGuard({
+      getAuthState: () => ({ isAuthenticated: true }),
+    });
+    const route = {
+      path: "/admin",
+      meta: { checkPermission: true, permissions: "admin.panel" },
+    } as unknown as RouteLocationNormalized;
+
+    const next = vi.fn();
+    await guard(route, route, next);
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it("never overwrites the config from storage", () => {
+    savePermissionsToStorage(["stale"]);
+    configurePermission({ "org:1": ["a"], "org:2": ["b"] });
+
+    const { permissions, refresh } = usePermission();
+    refresh();
+    expect(getPermissionScopes()).toEqual(["org:1", "org:2"]);
+    expect(permissions.value).toEqual([]);
+
+    const list = ref<string[]>([]);
+    configurePermission(list);
+    usePermission().refresh();
+    expect(list.value).toEqual([]);
+  });
+
+  it("doesn't restore stored permissions after a logout", async () => {
+    savePermissionsToStorage(["admin"]);
+    configurePermission([]);
+
+    const { can } = usePermission();
+    expect(getCurrentPermissions()).toEqual([]);
+    expect(await can("admin")).toBe(false);
+  });
+
+  describe("setPermissions", () => {
+    it("writes through to a configured Ref", () => {
+      const list = ref(["posts.view"]);
+      configurePermission(list);
+
+      setPermissions(["posts.edit"]);
+      expect(list.value).toEqual(["posts.edit"]);
+      expect(getCurrentPermissions()).toEqual(["posts.edit"]);
+    });
+
+    it("replaces only the active scope's list", () => {
+      configurePermission({ a: ["x"], b: ["y"] }, { scope: "a" });
+
+      setPermissions(["z"]);
+      expect(getCurrentPermissions()).toEqual(["z"]);
+      expect(getCurrentPermissions("b")).toEqual(["y"]);
+    });
+
+    it("leaves every scope alone without an active scope", () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+      configurePermission({ "org:1": ["a"], "org:2": ["b"] });
+
+      setPermissions(["c"]);
+      expect(error).toHaveBeenCalled();
+      expect(getPermissionScopes()).toEqual(["org:1", "org:2"]);
+      expect(getCurrentPermissions("org:1")).toEqual(["a"]);
+      expect(getCurrentPermissions("org:2")).toEqual(["b"]);
+      error.mockRestore();
+    });
+  });
+
+  describe("watchPermissions", () => {
+    it("passes the new and previous permissions", () => {
+      configurePermission(["a"]);
+      const callback = vi.fn();
+      const stop = watchPermissions(callback);
+
+      setPermissions(["a", "b"]);
+      expect(callback).toHaveBeenCalledWith(["a", "b"], ["a"]);
+
+      stop();
+      setPermissions([]);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it("skips notifications that leave the list unchanged", () => {
+      configurePermission(["a"]);
+      const callback = vi.fn();
+      const stop = watchPermissions(callback);
+
+      configurePermission(["a"]);
+      expect(callback).not.toHaveBeenCalled();
+      stop();
+    });
+
+    it("runs immediately when asked to", () => {
+      configurePermission(["a"]);
+      const callback = vi.fn();
+      const stop = watchPermissions(callback, { immediate: true });
+
+      expect(callback).toHaveBeenCalledWith(["a"], []);
+      stop();
+    });
+  });
+});
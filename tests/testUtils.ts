@@ -0,0 +1,57 @@
+import { afterEach, beforeEach } from "vitest";
+import { mount } from "@vue/test-utils";
+import type { Component } from "vue";
+import PermissionPlugin from "../src/plugin";
+import { configurePermission } from "../src/core/config";
+import { clearPermissionCache } from "../src/core/cache";
+import type { PluginOptions } from "../src/types";
+
+interface MountOptions {
+  components?: Record<string, Component>;
+  /** Extra plugin options, e.g. `disable` */
+  plugin?: PluginOptions;
+  attachTo?: Element | string;
+}
+
+/**
+ * Mount `template` in a <div> with PermissionPlugin installed, granting
+ * `permissions` (not persisted)
+ */
+export const mountWithPlugin = (
+  template: string,
+  permissions: string[] = [],
+  setup: () => Record<string, unknown> = () => ({}),
+  options: MountOptions = {}
+) =>
+  mount(
+    {
+      components: options.components,
+      template: `<div>${template}</div>`,
+      setup,
+    },
+    {
+      attachTo: options.attachTo,
+      global: {
+        plugins: [
+          [
+            PermissionPlugin,
+            { permissions, persist: false, ...options.plugin },
+          ],
+        ],
+      },
+    }
+  );
+
+/**
+ * Clear the cache before each test and the default instance's permissions
+ * after it
+ */
+export const resetPermissionsPerTest = () => {
+  beforeEach(() => {
+    clearPermissionCache();
+  });
+
+  afterEach(() => {
+    configurePermission([]);
+  });
+};
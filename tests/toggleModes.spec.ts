@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import { flushPromises } from "@vue/test-utils";
+import { ref } from "vue";
+import { setPermissions } from "../src/core/config";
+import { mountWithPlugin, resetPermissionsPerTest } from "./testUtils";
+
+describe("v-permission class and attr modes", () => {
+  resetPermissionsPerTest();
+
+  describe(":class", () => {
+    it("adds the modifier classes while denied", async () => {
+      const wrapper = mountWithPlugin(
+        `<section v-permission:class.locked.muted="'posts.edit'" class="card">
+          Post
+        </section>`
+      );
+      await flushPromises();
+
+      expect(wrapper.find("section").classes()).toEqual([
+        "card",
+        "locked",
+        "muted",
+      ]);
+
+      setPermissions(["posts.edit"]);
+      await flushPromises();
+      expect(wrapper.find("section").classes()).toEqual(["card"]);
+    });
+
+    it("falls back to v-permission-denied", async () => {
+      const wrapper = mountWithPlugin(
+        `<section v-permission:class="'posts.edit'">Post</section>`
+      );
+      await flushPromises();
+
+      expect(wrapper.find("section").classes()).toEqual([
+        "v-permission-denied",
+      ]);
+    });
+
+    it("leaves a class the element already had", async () => {
+      const wrapper = mountWithPlugin(
+        `<section v-permission:class.locked="'posts.edit'" class="locked">
+          Post
+        </section>`
+      );
+      await flushPromises();
+
+      setPermissions(["posts.edit"]);
+      await flushPromises();
+      expect(wrapper.find("section").classes()).toEqual(["locked"]);
+    });
+
+    it("keeps the classes when a re-render replaces the class list", async () => {
+      const active = ref(false);
+      const wrapper = mountWithPlugin(
+        `<section v-permission:class.locked="'posts.edit'" :class="{ active }">
+          Post
+        </section>`,
+        [],
+        () => ({ active })
+      );
+      await flushPromises();
+
+      active.value = true;
+      await flushPromises();
+      expect(wrapper.find("section").classes()).toEqual(["active", "locked"]);
+
+      setPermissions(["posts.edit"]);
+      await flushPromises();
+      expect(wrapper.find("section").classes()).toEqual(["active"]);
+    });
+
+    it("changes nothing while granted", () => {
+      const wrapper = mountWithPlugin(
+        `<section v-permission:class.locked="'posts.edit'">Post</section>`,
+        ["posts.edit"]
+      );
+
+      expect(wrapper.find("section").classes()).toEqual([]);
+    });
+  });
+
+  describe(":attr", () => {
+    it("sets readonly by default", async () => {
+      const wrapper = mountWithPlugin(
+        `<textarea v-permission:attr="'posts.edit'"></textarea>`
+      );
+      await flushPromises();
+
+      expect(wrapper.find("textarea").attributes("readonly")).toBe("");
+    });
+
+    it("turns off contenteditable and draggable", async () => {
+      const wrapper = mountWithPlugin(
+        `<div
+          v-permission:attr.contenteditable.draggable="'posts.edit'"
+          contenteditable="true"
+          class="editor"
+        >Body</div>`
+      );
+      await flushPromises();
+
+      const editor = wrapper.find(".editor");
+      expect(editor.attributes("contenteditable")).toBe("false");
+      expect(editor.attributes("draggable")).toBe("false");
+
+      setPermissions(["posts.edit"]);
+      await flushPromises();
+      expect(editor.attributes("contenteditable")).toBe("true");
+      expect(editor.attributes("draggable")).toBeUndefined();
+    });
+
+    it("keeps the attributes when a re-render resets them", async () => {
+      const readonly = ref(true);
+      const wrapper = mountWithPlugin(
+        `<input v-permission:attr.readonly="'posts.edit'" :readonly="readonly" />`,
+        [],
+        () => ({ readonly })
+      );
+      await flushPromises();
+
+      readonly.value = false;
+      await flushPromises();
+      const input = wrapper.find("input");
+      expect(input.attributes("readonly")).toBe("");
+
+      setPermissions(["posts.edit"]);
+      await flushPromises();
+      expect(input.attributes("readonly")).toBeUndefined();
+    });
+
+    it("is not mistaken for a scope", async () => {
+      const wrapper = mountWithPlugin(
+        `<input v-permission:attr.readonly="'posts.edit'" />`,
+        ["posts.edit"]
+      );
+      await flushPromises();
+
+      expect(wrapper.find("input").attributes("readonly")).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createGrantMatcher, matchWildcard } from "../src/core/wildcard";
+import { checkPermissionSync, hasPermission } from "../src/core/evaluator";
+import { configurePermission } from "../src/core/config";
+import { clearPermissionCache } from "../src/core/cache";
+
+describe("Wildcard Matching (wildcard.ts)", () => {
+  describe("matchWildcard", () => {
+    it("matches literal patterns exactly", () => {
+      expect(matchWildcard("posts.edit", "posts.edit")).toBe(true);
+      expect(matchWildcard("posts.edit", "posts.editor")).toBe(false);
+    });
+
+    it("* matches exactly one segment", () => {
+      expect(matchWildcard("posts.*", "posts.edit")).toBe(true);
+      expect(matchWildcard("posts.*", "posts")).toBe(false);
+      expect(matchWildcard("posts.*", "posts.comments.edit")).toBe(false);
+      expect(matchWildcard("*.read", "reports.read")).toBe(true);
+      expect(matchWildcard("*.read", "reports.write")).toBe(false);
+    });
+
+    it("does not match across segment boundaries", () => {
+      expect(matchWildcard("post.*", "postal.view")).toBe(false);
+    });
+
+    it("** matches any depth, including none", () => {
+      expect(matchWildcard("org.**", "org")).toBe(true);
+      expect(matchWildcard("org.**", "org.team")).toBe(true);
+      expect(matchWildcard("org.**", "org.team.members.read")).toBe(true);
+      expect(matchWildcard("org.**", "organization.read")).toBe(false);
+      expect(matchWildcard("org.**.read", "org.read")).toBe(true);
+      expect(matchWildcard("org.**.read", "org.a.b.read")).toBe(true);
+      expect(matchWildcard("org.**.read", "org.a.b.write")).toBe(false);
+    });
+
+    it("rejects empty segments for *", () => {
+      expect(matchWildcard("posts.*", "posts.")).toBe(false);
+    });
+  });
+
+  describe("createGrantMatcher", () => {
+    it("grants exact and wildcard permissions", () => {
+      const isGranted = createGrantMatcher(["users.view", "posts.*"]);
+      expect(isGranted("users.view")).toBe(true);
+      expect(isGranted("posts.delete")).toBe(true);
+      expect(isGranted("posts.comments.delete")).toBe(false);
+      expect(isGranted("users.edit")).toBe(false);
+    });
+
+    it("treats a bare * grant as full access", () => {
+      const isGranted = createGrantMatcher(["*"]);
+      expect(isGranted("anything.at.all")).toBe(true);
+    });
+  });
+
+  describe("evaluator integration", () => {
+    beforeEach(() => {
+      clearPermissionCache();
+      configurePermission(["posts.*", "org.**", "reports.read", "postal.view"]);
+    });
+
+    it("granted wildcards satisfy string rules", async () => {
+      expect(await hasPermission("posts.delete")).toBe(true);
+      expect(await hasPermission("org.team.members.invite")).toBe(true);
+      expect(checkPermissionSync("posts.delete")).toBe(true);
+      expect(checkPermissionSync("users.delete")).toBe(false);
+    });
+
+    it("granted wildcards satisfy and/or/not groups", async () => {
+      expect(
+        await hasPermission({
+          mode: "and",
+          permissions: ["posts.edit", "reports.read"],
+        })
+      ).toBe(true);
+      expect(
+        checkPermissionSync({ mode: "not", permissions: ["posts.delete"] })
+      ).toBe(false);
+    });
+
+    it("supports wildcard mode patterns", async () => {
+      const rule = { mode: "wildcard" as const, permissions: ["*.read"] };
+      expect(await hasPermission(rule)).toBe(true);
+      expect(checkPermissionSync(rule, ["reports.write"])).toBe(false);
+    });
+
+    it("wildcard mode respects segment boundaries unlike startWith", async () => {
+      const rule = { mode: "wildcard" as const, permissions: ["post.*"] };
+      expect(await hasPermission(rule, ["postal.view"])).toBe(false);
+      expect(
+        await hasPermission({ mode: "startWith", permissions: ["post"] }, [
+          "postal.view",
+        ])
+      ).toBe(true);
+    });
+
+    it("wildcard mode accepts literal patterns granted through wildcards", () => {
+      const rule = { mode: "wildcard" as const, permissions: ["posts.edit"] };
+      expect(checkPermissionSync(rule)).toBe(true);
+    });
+  });
+});